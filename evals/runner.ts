@@ -77,7 +77,21 @@ export default class CustomApiProvider implements ApiProvider {
         const json = (await response.json()) as any;
         console.log(`[Success] Request completed on attempt ${attempt + 1}`);
 
-        // Extract emoji category from community note
+        // Map the machine category onto the broad categories of the test cases
+        const machineCategoryMap: Record<string, string> = {
+          scam: "bad",
+          illicit: "bad",
+          untrue: "bad",
+          accurate: "good",
+          legitimate: "good",
+          misleading: "caution",
+          unverifiable: "caution",
+          satire: "satire",
+          irrelevant: "nothing",
+        };
+
+        // Checks made before machineCategory existed only have the emoji
+        // at the start of the community note
         const emojiMap: Record<string, string> = {
           "🚨": "bad",
           "❌": "bad",
@@ -90,13 +104,18 @@ export default class CustomApiProvider implements ApiProvider {
           "📝": "nothing",
         };
 
-        const enText = json.result.communityNote.en || "";
-        const firstChar = enText.trim().substring(0, 2);
+        const machineCategory = json.result.machineCategory ?? null;
         let broadCategory = "nothing";
-        for (const [emoji, category] of Object.entries(emojiMap)) {
-          if (firstChar.startsWith(emoji)) {
-            broadCategory = category;
-            break;
+        if (machineCategory && machineCategory in machineCategoryMap) {
+          broadCategory = machineCategoryMap[machineCategory];
+        } else {
+          const enText = json.result.communityNote.en || "";
+          const firstChar = enText.trim().substring(0, 2);
+          for (const [emoji, category] of Object.entries(emojiMap)) {
+            if (firstChar.startsWith(emoji)) {
+              broadCategory = category;
+              break;
+            }
           }
         }
 
@@ -109,6 +128,9 @@ export default class CustomApiProvider implements ApiProvider {
             isVideo: json.result.isVideo ? "TRUE" : "FALSE",
             isAccessBlocked: json.result.isAccessBlocked ? "TRUE" : "FALSE",
             broadCategory,
+            machineCategory,
+            machineCategoryConfidence:
+              json.result.machineCategoryConfidence ?? null,
             numRetries: attempt,
           },
           raw: json,
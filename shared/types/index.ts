@@ -47,6 +47,7 @@ export interface ScreenshotResponse extends ServiceResponse {
     url: string;
     imageUrl: string;
     base64?: string;
+    r2Key?: string; // Where the screenshot is kept in the screenshots bucket
   };
 }
 
@@ -72,10 +73,37 @@ export interface URLScanResponse extends ServiceResponse {
 
 export type LLMProvider = "openai" | "vertex-ai" | "groq";
 
+// Models used by each step of the check pipeline, tried in order until one succeeds
+export interface PipelineModels {
+  extractUrls: string[];
+  preprocess: string[];
+  extractClaims: string[];
+  agent: string[];
+  reviewer: string[];
+  summarize: string[];
+  classify: string[];
+  translate: string[];
+}
+
+export type PipelineStep = keyof PipelineModels;
+
+// How the check pipeline is run for a consumer
+export interface PipelineProfile {
+  models: PipelineModels;
+  maxSearches: number;
+  maxScreenshots: number;
+  maxUrlScans: number;
+  maxSteps: number; // Steps of the agent loop
+  languages: TranslatedLanguage[]; // Languages the community note is translated into, besides English
+  triggerVoting: boolean;
+  requestProfiles: string[]; // Profiles that requests of consumers assigned this profile may pick instead
+}
+
 // Base interface with common properties
 interface BaseAgentRequest {
   id?: string;
-  model?: string;
+  model?: string; // Tried before the agent models of the pipeline profile
+  pipelineProfile?: string; // Name of the pipeline profile to run, see PIPELINE_PROFILES
   consumerName?: string;
   findSimilar?: boolean;
   isReport?: boolean;
@@ -118,14 +146,148 @@ export interface AgentResponse extends ServiceResponse {
     isHumanAssessed: boolean;
     isVoteTriggered: boolean;
     crowdsourcedCategory: string | null;
+    machineCategory: MachineCategory | null;
+    machineCategoryConfidence: number | null;
+    claims: ClaimAssessment[] | null;
+  };
+}
+
+// Returned when a check is submitted asynchronously
+export interface SubmissionAcceptedResponse extends ServiceResponse {
+  success: true;
+  result: {
+    submissionId: string;
+    checkId: string;
+    checkStatus: Submission["checkStatus"];
+    generationStatus: Check["generationStatus"];
   };
 }
 
+export interface SubmissionStatusResponse extends ServiceResponse {
+  success: true;
+  result: {
+    submissionId: string;
+    checkId: string | null;
+    requestId: string | null;
+    timestamp: Date;
+    checkStatus: Submission["checkStatus"];
+    generationStatus: Check["generationStatus"] | null;
+  };
+}
+
+export interface CheckErasureResponse extends ServiceResponse {
+  success: true;
+  result: {
+    checkId: string;
+    submissionsDeleted: number;
+    objectsDeleted: number; // Images and screenshots removed from R2
+    traceDeleted: boolean;
+  };
+}
+
+export type CheckErasureResult = CheckErasureResponse | ErrorResponse;
+
+export interface CheckRetryResponse extends ServiceResponse {
+  success: true;
+  result: {
+    checkId: string;
+    resumeFrom: CheckProgressStage; // The first step without a checkpoint
+  };
+}
+
+export type CheckRetryResult = CheckRetryResponse | ErrorResponse;
+
+// Live progress of the check pipeline
+export type CheckProgressStage =
+  | "download-image"
+  | "extract-urls"
+  | "preprocess"
+  | "extract-claims"
+  | "agent-loop"
+  | "summarize"
+  | "translate";
+
+export type CheckProgressEventData =
+  | {
+      type: "stage";
+      stage: CheckProgressStage;
+      step: number;
+      message: string;
+    }
+  | {
+      type: "tool-call";
+      toolName: string;
+      input: unknown;
+    }
+  | {
+      type: "review";
+      passedReview: boolean;
+      feedback: string;
+    }
+  | {
+      type: "result";
+      result: AgentResponse;
+    }
+  | {
+      type: "error";
+      error: ErrorResponse["error"];
+    };
+
+export type CheckProgressEvent = CheckProgressEventData & {
+  checkId: string;
+  timestamp: string;
+};
+
 export interface CheckUpdate {
   id: string;
   isHumanAssessed: boolean;
   crowdsourcedCategory: string | null;
   isCommunityNoteDownvoted: boolean | null;
+  updatedBy?: string;
+}
+
+export type FeedbackRating = "helpful" | "notHelpful";
+
+// An end user's reaction to the community note they got for a submission
+export interface SubmissionFeedback {
+  submissionId: string;
+  checkId: string;
+  consumerName: string;
+  rating: FeedbackRating;
+  reason: string | null;
+  timestamp: Date;
+}
+
+// The feedback on a check's community note, across its submissions
+export interface FeedbackSummary {
+  helpful: number;
+  notHelpful: number;
+}
+
+// Lifecycle events of a check that consumers can subscribe to via webhooks
+export type CheckLifecycleEventType =
+  | "completed"
+  | "errored"
+  | "assessed"
+  | "downvoted"
+  | "categoryChanged"
+  | "humanNoteUpdated";
+
+export interface CheckLifecycleEvent {
+  checkId: string;
+  type: CheckLifecycleEventType;
+  timestamp: string;
+  data?: Record<string, unknown>;
+}
+
+// Body POSTed to a consumer's webhook URL
+export interface WebhookPayload {
+  id: string;
+  type: CheckLifecycleEventType;
+  checkId: string;
+  submissionIds: string[];
+  timestamp: string;
+  data: Record<string, unknown>;
 }
 
 interface LanguageResponses {
@@ -137,6 +299,32 @@ interface LanguageResponses {
   links: string[] | null;
 }
 
+// Verdict of the pipeline on a check, from the same taxonomy as crowdsourcedCategory
+export type MachineCategory =
+  | "scam"
+  | "illicit"
+  | "untrue"
+  | "misleading"
+  | "accurate"
+  | "legitimate"
+  | "satire"
+  | "unverifiable"
+  | "irrelevant";
+
+export interface MachineClassification {
+  category: MachineCategory;
+  confidence: number; // Between 0 and 1
+}
+
+// Verdict on a single claim made by the content of a check
+export type ClaimVerdict = "true" | "false" | "misleading" | "unverifiable";
+
+export interface ClaimAssessment {
+  claim: string;
+  verdict: ClaimVerdict;
+  links: string[]; // The evidence for the verdict
+}
+
 // Import types from models
 export type ErrorType =
   | "error"
@@ -171,7 +359,9 @@ export interface Check {
   longformResponse: Report;
   shortformResponse: CommunityNote;
   humanResponse: HumanNote | null;
-  machineCategory: string | null;
+  machineCategory: MachineCategory | null;
+  machineCategoryConfidence?: number | null; // How sure the pipeline is of machineCategory, between 0 and 1
+  claims?: ClaimAssessment[] | null; // The checkable claims in the content, each with its own verdict
   crowdsourcedCategory: string | null;
   pollId: string | null;
   isHumanAssessed: boolean;
@@ -181,6 +371,61 @@ export interface Check {
   notificationId: number | null;
   communityNoteNotificationId: number | null;
   isReport: boolean;
+  consumerName?: string | null; // The consumer that submitted the check, kept so a retry runs the same way
+  pipelineProfile?: string | null; // The pipeline profile requested by the consumer
+  model?: string | null; // The model requested by the consumer
+  modelsUsed?: Partial<Record<PipelineStep, string>>;
+  screenshotKeys?: string[]; // Keys of the screenshots the pipeline used, so they can be deleted when the check is erased // The model that produced the output of each step
+  auditVersion?: number; // Incremented on every update, numbering the check's audit entries
+  checkpoints?: CheckCheckpoints | null; // Cleared once the check completes
+}
+
+// Outputs of the pipeline steps that have succeeded, so that a failed check can resume after them
+export interface CheckCheckpoints {
+  profile?: PipelineProfile;
+  preprocess?: {
+    intent: string;
+    startingContent: unknown[];
+    isAccessBlocked: boolean;
+    isVideo: boolean;
+    title: string | null;
+  };
+  claims?: string[];
+  agentLoop?: {
+    report: string;
+    sources: string[];
+    isControversial: boolean;
+    claims: ClaimAssessment[];
+  };
+  summary?: string;
+  classification?: MachineClassification;
+  translations?: Partial<Record<TranslatedLanguage, string>>;
+}
+
+// A field changed by an update, using the same dotted path as the update
+export interface CheckFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// One update of a check, as recorded in the checkAudits collection
+export interface CheckAuditEntry {
+  _id: string;
+  checkId: string;
+  version: number;
+  actor: string; // Who made the change, e.g. a checker, a consumer or "system"
+  timestamp: Date;
+  changes: CheckFieldChange[];
+}
+
+// Left in the checkTombstones collection when a check is erased, in place of the check
+export interface CheckTombstone {
+  _id: string; // The ID of the erased check
+  erasedAt: Date;
+  erasedBy: string;
+  reason: string | null;
+  submissionsDeleted: number;
 }
 
 export interface Submission {
@@ -197,12 +442,38 @@ export interface Submission {
   checkStatus: "pending" | "completed" | "error";
 }
 
+// Filters and position for listing a consumer's submissions, newest first
+export interface SubmissionListOptions {
+  limit: number;
+  checkStatus?: Submission["checkStatus"];
+  type?: Submission["type"];
+  from?: Date;
+  to?: Date;
+  // Only submissions listed after this one are returned
+  after?: { timestamp: Date; id: string };
+}
+
+// A submission with the status, title and slug of its check
+export interface SubmissionWithCheck extends Submission {
+  check: Pick<Check, "generationStatus" | "title" | "slug"> | null;
+}
+
+// Optional filters for the vector searches over checks
+export interface SimilarCheckFilters {
+  humanAssessedOnly?: boolean;
+  from?: Date;
+  to?: Date;
+  crowdsourcedCategory?: string;
+  machineCategory?: MachineCategory;
+}
+
 interface DatabaseServiceEnvironment {
   MONGODB_URI: string;
 }
 
 export interface CommunityNote extends LanguageResponses {
   downvoted?: boolean | null;
+  downvotedByFeedback?: boolean; // Kept apart from downvoted, so that checkers not downvoting the note does not undo it
   timestamp: Date;
 }
 
@@ -213,8 +484,39 @@ export interface Report extends LanguageResponses {
 export interface HumanNote extends LanguageResponses {
   timestamp: Date;
   updatedBy: string;
+  machineTranslated?: TranslatedLanguage[]; // Languages translated automatically from English
+}
+
+// The languages notes are translated into from English
+export type TranslatedLanguage = "cn" | "ms" | "id" | "ta";
+
+// A human note as submitted by a checker. Missing translations are generated unless autoTranslate is false.
+export interface HumanNoteUpdate {
+  en: string | null;
+  cn?: string | null;
+  ms?: string | null;
+  id?: string | null;
+  ta?: string | null;
+  links: string[] | null;
+  updatedBy: string;
+  autoTranslate?: boolean;
+}
+
+export interface TranslationResponse extends ServiceResponse {
+  success: true;
+  result: Partial<Record<TranslatedLanguage, string>>; // Languages that failed to translate are left out
 }
 
+export type TranslationResult = TranslationResponse | ErrorResponse;
+
+// Returned by the healthCheck method of a service, used by GET /health
+export interface HealthCheckResponse extends ServiceResponse {
+  success: true;
+  details?: Record<string, unknown>;
+}
+
+export type HealthCheckResult = HealthCheckResponse | ErrorResponse;
+
 // Union type for all possible agent responses
 export type AgentResult = AgentResponse | ErrorResponse;
 
@@ -224,3 +526,7 @@ export type ScreenshotResult = ScreenshotResponse | ErrorResponse;
 export type SearchResult = SearchResponse | ErrorResponse;
 export type URLScanResult = URLScanResponse | ErrorResponse;
 export type TrivialFilterResult = TrivialFilterResponse | ErrorResponse;
+export type SubmissionAcceptedResult =
+  | SubmissionAcceptedResponse
+  | ErrorResponse;
+export type SubmissionStatusResult = SubmissionStatusResponse | ErrorResponse;
@@ -0,0 +1,18 @@
+/**
+ * The verdicts given to each claim made by the content of a check
+ */
+
+import { ClaimVerdict } from "../types";
+
+export const CLAIM_VERDICT_DESCRIPTIONS: Record<ClaimVerdict, string> = {
+  true: "The claim is demonstrably true, or mostly true",
+  false: "The claim is demonstrably false, or mostly false",
+  misleading:
+    "The claim is partly true, or true but lacking context, such that it misleads",
+  unverifiable: "There is not enough evidence to determine whether it is true",
+};
+
+export const CLAIM_VERDICTS = Object.keys(CLAIM_VERDICT_DESCRIPTIONS) as [
+  ClaimVerdict,
+  ...ClaimVerdict[]
+];
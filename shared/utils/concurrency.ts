@@ -0,0 +1,31 @@
+/**
+ * Maps over items with at most `limit` calls of `fn` running at once.
+ * Results are returned in the same order as the items.
+ *
+ * @param items - The items to map over
+ * @param limit - The maximum number of concurrent calls
+ * @param fn - The async function to call for each item
+ * @returns The results, in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(limit, 1), items.length) },
+    worker
+  );
+  await Promise.all(workers);
+  return results;
+}
@@ -150,3 +150,33 @@ export function pdqHashToVector(pdqHash: string): number[] {
 
   return vector;
 }
+
+/**
+ * Generates an HMAC-SHA256 signature for the given message.
+ * Uses the Web Crypto API which is available in Cloudflare Workers.
+ *
+ * @param secret - The secret key used to sign the message
+ * @param message - The message to sign
+ * @returns A hexadecimal string representation of the signature
+ */
+export async function hmacSha256(
+  secret: string,
+  message: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(message)
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
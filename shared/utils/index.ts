@@ -4,4 +4,9 @@ export * from "./llmProvider";
 export * from "./slug";
 export * from "./hash";
 export * from "./base64";
+export * from "./concurrency";
+export * from "./phone";
+export * from "./pipelineProfiles";
+export * from "./machineCategories";
+export * from "./claims";
 // Export any other utilities you have
@@ -0,0 +1,27 @@
+/**
+ * The categories the pipeline classifies checks into, matching the
+ * categories checkers vote on
+ */
+
+import { MachineCategory } from "../types";
+
+export const MACHINE_CATEGORY_DESCRIPTIONS: Record<MachineCategory, string> = {
+  scam: "Intended to obtain money or personal information through deception",
+  illicit:
+    "Other potentially illicit activity, e.g. unlicensed moneylending or prostitution",
+  untrue: "The primary elements are demonstrably false, or mostly false",
+  misleading:
+    "The primary elements are mostly true but lack balance, or there is a mix of truth and untruth such that the overall message is misleading",
+  accurate: "The primary elements are demonstrably true, or mostly true",
+  legitimate:
+    "Authentic, legitimate offers or initiatives available to consumers or members of the public",
+  satire:
+    "Deliberately false or exaggerated, designed to entertain or mock, not to deceive",
+  unverifiable:
+    "Could not be confirmed either way, e.g. unproven claims, claims lacking evidence or messages whose legitimacy could not be confirmed",
+  irrelevant: "There is nothing to assess, or it is an open-ended question",
+};
+
+export const MACHINE_CATEGORIES = Object.keys(
+  MACHINE_CATEGORY_DESCRIPTIONS
+) as [MachineCategory, ...MachineCategory[]];
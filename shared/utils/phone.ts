@@ -0,0 +1,30 @@
+/**
+ * Utility functions for phone numbers
+ */
+
+const SINGAPORE_COUNTRY_CODE = "65";
+// Singapore numbers are 8 digits, starting with 3, 6, 8 or 9
+const SINGAPORE_LOCAL_NUMBER = /^[3689]\d{7}$/;
+
+/**
+ * Normalizes a phone number to E.164, so that different ways of writing the
+ * same number match. Numbers without a country code are assumed to be
+ * Singaporean, e.g. "+65 9123 4567", "91234567" and "6591234567" all become
+ * "+6591234567".
+ * @param phone The phone number to normalize
+ * @returns The normalized phone number, or null if it has no digits
+ */
+export function normalizePhoneNumber(phone: string): string | null {
+  let digits = phone.replace(/\D/g, "");
+  // 00 is the international dialling prefix, like +
+  if (!phone.trim().startsWith("+") && digits.startsWith("00")) {
+    digits = digits.slice(2);
+  }
+  if (!digits) {
+    return null;
+  }
+  if (SINGAPORE_LOCAL_NUMBER.test(digits)) {
+    digits = `${SINGAPORE_COUNTRY_CODE}${digits}`;
+  }
+  return `+${digits}`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Pipeline profiles, which set how the check pipeline is run for a consumer
+ */
+
+import { PipelineProfile } from "../types";
+
+export const DEFAULT_PIPELINE_PROFILE = "default";
+
+export const PIPELINE_PROFILES = {
+  // The full pipeline, for Checkmate's own WhatsApp bot
+  default: {
+    models: {
+      extractUrls: ["gemini-2.5-flash", "gpt-5-mini"],
+      preprocess: ["gemini-2.5-pro", "gpt-5"],
+      extractClaims: ["gemini-2.5-flash", "gpt-5-mini"],
+      agent: ["gpt-5-mini", "gemini-2.5-flash"],
+      reviewer: ["gemini-2.5-pro", "gpt-5"],
+      summarize: ["gemini-2.5-flash", "gpt-5-mini"],
+      classify: ["gemini-2.5-flash", "gpt-5-mini"],
+      translate: ["gemini-2.5-flash", "gpt-5-mini"],
+    },
+    maxSearches: 5,
+    maxScreenshots: 5,
+    maxUrlScans: 5,
+    maxSteps: 50,
+    languages: ["cn", "ms", "id", "ta"],
+    triggerVoting: true,
+    requestProfiles: ["default", "fast", "english-only"],
+  },
+  // Cheaper models and fewer tool calls, for consumers that need answers quickly
+  fast: {
+    models: {
+      extractUrls: ["gemini-2.5-flash", "gpt-5-mini"],
+      preprocess: ["gemini-2.5-flash", "gpt-5-mini"],
+      extractClaims: ["gemini-2.5-flash", "gpt-5-mini"],
+      agent: ["gpt-5-mini", "gemini-2.5-flash"],
+      reviewer: ["gemini-2.5-flash", "gpt-5-mini"],
+      summarize: ["gemini-2.5-flash", "gpt-5-mini"],
+      classify: ["gemini-2.5-flash", "gpt-5-mini"],
+      translate: ["gemini-2.5-flash", "gpt-5-mini"],
+    },
+    maxSearches: 3,
+    maxScreenshots: 2,
+    maxUrlScans: 3,
+    maxSteps: 25,
+    languages: ["cn", "ms", "id", "ta"],
+    triggerVoting: true,
+    requestProfiles: ["fast"],
+  },
+  // For partners that only show English and don't want checkers to vote on their checks
+  "english-only": {
+    models: {
+      extractUrls: ["gemini-2.5-flash", "gpt-5-mini"],
+      preprocess: ["gemini-2.5-pro", "gpt-5"],
+      extractClaims: ["gemini-2.5-flash", "gpt-5-mini"],
+      agent: ["gpt-5-mini", "gemini-2.5-flash"],
+      reviewer: ["gemini-2.5-pro", "gpt-5"],
+      summarize: ["gemini-2.5-flash", "gpt-5-mini"],
+      classify: ["gemini-2.5-flash", "gpt-5-mini"],
+      translate: ["gemini-2.5-flash", "gpt-5-mini"],
+    },
+    maxSearches: 5,
+    maxScreenshots: 5,
+    maxUrlScans: 5,
+    maxSteps: 50,
+    languages: [],
+    triggerVoting: false,
+    requestProfiles: ["english-only"],
+  },
+} satisfies Record<string, PipelineProfile>;
+
+export type PipelineProfileName = keyof typeof PIPELINE_PROFILES;
+
+export const PIPELINE_PROFILE_NAMES = Object.keys(PIPELINE_PROFILES) as [
+  PipelineProfileName,
+  ...PipelineProfileName[]
+];
+
+// Every model used by a pipeline profile, the only ones requests can pick
+export const PIPELINE_MODELS = [
+  ...new Set(
+    Object.values(PIPELINE_PROFILES).flatMap((profile) =>
+      Object.values(profile.models).flat()
+    )
+  ),
+];
+
+// Whether the pipeline can run a model, i.e. a pipeline profile uses it
+export function isSupportedPipelineModel(model: string): boolean {
+  return PIPELINE_MODELS.includes(model);
+}
+
+/**
+ * Checks the pipeline profile and model picked by a request against the
+ * profile assigned to its consumer, which lists the profiles its requests may
+ * pick. The model must be one of the agent models of the profile that runs.
+ * @returns Why the request may not pick them, or null if it may
+ */
+export function getPipelineOverrideError(
+  assignedName: string | null | undefined,
+  requestedName?: string,
+  model?: string
+): string | null {
+  if (
+    requestedName &&
+    !getPipelineProfile(assignedName).requestProfiles.includes(requestedName)
+  ) {
+    return `Your API key can't use the ${requestedName} pipeline profile`;
+  }
+  const agentModels = getPipelineProfile(requestedName ?? assignedName).models
+    .agent;
+  if (model && !agentModels.includes(model)) {
+    return `Your pipeline profile can't use ${model}, only ${agentModels.join(
+      ", "
+    )}`;
+  }
+  return null;
+}
+
+/**
+ * Gets a pipeline profile by name, falling back to the default profile for
+ * unknown names, e.g. of a profile that has since been removed
+ * @param name The name of the profile
+ * @param model Tried before the agent models of the profile
+ */
+export function getPipelineProfile(
+  name?: string | null,
+  model?: string
+): PipelineProfile {
+  const profile: PipelineProfile =
+    name && name in PIPELINE_PROFILES
+      ? PIPELINE_PROFILES[name as PipelineProfileName]
+      : PIPELINE_PROFILES[DEFAULT_PIPELINE_PROFILE];
+  if (!model) {
+    return profile;
+  }
+  const agentModels = [
+    model,
+    ...profile.models.agent.filter((agentModel) => agentModel !== model),
+  ];
+  return { ...profile, models: { ...profile.models, agent: agentModels } };
+}
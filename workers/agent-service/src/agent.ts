@@ -744,6 +744,10 @@ export class CheckerAgent extends DurableObject<Env> {
           isHumanAssessed: false,
           isVoteTriggered: false,
           crowdsourcedCategory: null,
+          // Only the ai-checker-service pipeline classifies verdicts and claims
+          machineCategory: null,
+          machineCategoryConfidence: null,
+          claims: null,
         },
       };
 
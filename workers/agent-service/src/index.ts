@@ -105,6 +105,9 @@ export default class extends WorkerEntrypoint<Env> {
           slug: check.slug,
           timestamp: check.timestamp,
           crowdsourcedCategory: check.crowdsourcedCategory,
+          machineCategory: check.machineCategory ?? null,
+          machineCategoryConfidence: check.machineCategoryConfidence ?? null,
+          claims: check.claims ?? null,
           isHumanAssessed: check.isHumanAssessed,
           isVoteTriggered: check.isVoteTriggered,
         },
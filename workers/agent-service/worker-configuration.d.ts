@@ -26,6 +26,7 @@ interface Env {
 
   EMBEDDER_SERVICE: {
     embed(params: EmbedRequest): Promise<EmbedResult>;
+    healthCheck(): Promise<HealthCheckResult>;
   } & ServiceWorkerGlobalScope;
 
   PRESIGNED_URL_SERVICE: {
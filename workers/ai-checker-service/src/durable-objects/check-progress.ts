@@ -0,0 +1,104 @@
+import { DurableObject } from "cloudflare:workers";
+import { createLogger } from "@workspace/shared-utils";
+import { CheckProgressEvent } from "@workspace/shared-types";
+
+// How long events are kept after a check finishes, so late subscribers can still replay them
+const EVENT_RETENTION_MS = 60 * 60 * 1000; // 1 hour
+
+function isFinalEvent(event: CheckProgressEvent) {
+  return event.type === "result" || event.type === "error";
+}
+
+/**
+ * CheckProgress records the progress events of a single check (addressed by check ID)
+ * and fans them out to any number of subscribers as newline-delimited JSON.
+ * Subscribers that attach late receive a replay of all events so far.
+ */
+export class CheckProgress extends DurableObject<Env> {
+  private logger = createLogger("check-progress");
+  private subscribers = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private encoder = new TextEncoder();
+
+  private encode(event: CheckProgressEvent) {
+    return this.encoder.encode(JSON.stringify(event) + "\n");
+  }
+
+  async publish(event: CheckProgressEvent): Promise<void> {
+    const sequence: number = (await this.ctx.storage.get("sequence")) || 0;
+    // Zero-padded so that storage.list() returns events in order
+    await this.ctx.storage.put(
+      `event-${sequence.toString().padStart(6, "0")}`,
+      event
+    );
+    await this.ctx.storage.put("sequence", sequence + 1);
+
+    const chunk = this.encode(event);
+    for (const writer of this.subscribers) {
+      writer.write(chunk).catch(() => {
+        // Subscriber went away
+        this.subscribers.delete(writer);
+      });
+      if (isFinalEvent(event)) {
+        writer.close().catch(() => {});
+      }
+    }
+
+    if (isFinalEvent(event)) {
+      this.subscribers.clear();
+      await this.ctx.storage.setAlarm(Date.now() + EVENT_RETENTION_MS);
+      this.logger.info(
+        { checkId: event.checkId, type: event.type },
+        "Check finished, closing subscribers"
+      );
+    }
+  }
+
+  async hasEvents(): Promise<boolean> {
+    const sequence: number = (await this.ctx.storage.get("sequence")) || 0;
+    return sequence > 0;
+  }
+
+  async subscribe(): Promise<ReadableStream<Uint8Array>> {
+    const { readable, writable } = new TransformStream<
+      Uint8Array,
+      Uint8Array
+    >();
+    const writer = writable.getWriter();
+
+    // Replay everything published so far
+    const events = await this.ctx.storage.list<CheckProgressEvent>({
+      prefix: "event-",
+    });
+    let isFinished = false;
+    for (const event of events.values()) {
+      writer.write(this.encode(event)).catch(() => {});
+      if (isFinalEvent(event)) {
+        isFinished = true;
+      }
+    }
+
+    if (isFinished) {
+      writer.close().catch(() => {});
+    } else {
+      this.subscribers.add(writer);
+    }
+    return readable;
+  }
+
+  /**
+   * Forgets the events of a previous run, so that a retried check is not
+   * reported as finished and its events are not deleted while it runs
+   */
+  async reset(): Promise<void> {
+    for (const writer of this.subscribers) {
+      writer.close().catch(() => {});
+    }
+    this.subscribers.clear();
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+  }
+
+  async alarm() {
+    await this.ctx.storage.deleteAll();
+  }
+}
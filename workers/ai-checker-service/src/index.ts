@@ -1,35 +1,78 @@
-import { createLogger, getSlugFromTitle } from "@workspace/shared-utils";
+import {
+  createLogger,
+  getPipelineProfile,
+  getSlugFromTitle,
+} from "@workspace/shared-utils";
 import { WorkerEntrypoint } from "cloudflare:workers";
 import { truncateBase64 } from "./utils/truncate-base64";
 import {
   AgentRequestWithUrls,
   preprocessInputs,
 } from "./steps/preprocess-inputs";
+import { extractClaims } from "./steps/extract-claims";
 import { runAgentLoop } from "./steps/agent-loop";
 import { summarizeReport } from "./steps/summarize-report";
-import { translateText } from "./steps/translate";
+import { classifyVerdict } from "./steps/classify-verdict";
+import {
+  requestTranslation,
+  TRANSLATION_TARGET_LANGUAGES,
+  translateText,
+} from "./steps/translate";
 import {
   AgentRequest,
   AgentResponse,
   AgentResult,
+  Check,
+  CheckCheckpoints,
+  CheckErasureResult,
+  CheckProgressStage,
+  CheckRetryResult,
   CommunityNote,
+  ErrorResponse,
   ErrorType,
+  HealthCheckResult,
   Report,
   Submission,
+  SubmissionAcceptedResult,
+  SubmissionStatusResult,
+  TranslatedLanguage,
+  TranslationResult,
 } from "@workspace/shared-types";
 import { extractUrls } from "./steps/extract-urls";
 import { downloadImage } from "./steps/download-image";
 import { NodeSDK } from "@opentelemetry/sdk-node";
 import { LangfuseExporter } from "langfuse-vercel";
 import { Langfuse } from "langfuse";
-import { CheckContext } from "./types";
+import { CheckContext, CheckJob } from "./types";
 import { findSimilar } from "./steps/find-similar";
 import { getCheck } from "./lib/get-check";
 import { createCheck } from "./lib/create-check";
 import { sendCommunityNoteNotification } from "./lib/send-community-note-notification";
 import { updateCheck } from "./lib/update-check";
+import { eraseCheck } from "./lib/erase-check";
+import { getResumeStage, retryCheck } from "./lib/retry-check";
+import { withStepRetries } from "./lib/step-retries";
 import { triggerVoting } from "./lib/trigger-voting";
+import {
+  getCheckStatus,
+  updateSubmissionsStatus,
+} from "./lib/update-submissions";
 import { id } from "zod/v4/locales";
+import {
+  createProgressEmitter,
+  createSingleEventStream,
+} from "./lib/publish-progress";
+export { CheckProgress } from "./durable-objects/check-progress";
+import { sendConsumerWebhookEvent } from "./lib/send-consumer-webhook-event";
+
+// The generationStatus of a check that fails at each step of the pipeline
+const STAGE_ERROR_TYPES: Partial<Record<CheckProgressStage, ErrorType>> = {
+  preprocess: "error-preprocessing",
+  "extract-claims": "error-preprocessing",
+  "agent-loop": "error-agentLoop",
+  summarize: "error-summarization",
+  translate: "error-translation",
+};
 
 export default class extends WorkerEntrypoint<Env> {
   private logger = createLogger("ai-checker-service");
@@ -45,6 +88,9 @@ export default class extends WorkerEntrypoint<Env> {
         logger: this.logger,
         trace: null as any,
         ctx: this.ctx,
+        profile: getPipelineProfile(),
+        modelsUsed: {},
+        screenshotKeys: new Set(),
       };
 
       if (url.pathname === "/test/extract-urls" && request.method === "POST") {
@@ -99,36 +145,303 @@ export default class extends WorkerEntrypoint<Env> {
   }
 
   async check(request: AgentRequest): Promise<AgentResult> {
-    let submissionId: string | null = null;
-    let checkId: string | null = null;
-    let notificationId: number | null = null;
-    let communityNoteNotificationId: number | null = null;
-    let communityNote: CommunityNote | null = null;
-    let longformReport: Report | null = null;
-    let isControversial = false;
-    let generationStatus: string = "pending";
-    let isAccessBlocked = false;
-    let isVideo = false;
-    let title: string | null = null;
-    let slug: string | null = null;
+    const logger = this.createRequestLogger(request);
+    logger.info("Check request received");
+    const checkCtx = this.createCheckContext(logger);
+    const submission = this.createSubmission(request);
 
-    const submission: Omit<Submission, "_id"> = {
-      requestId: request.id ?? null,
-      timestamp: new Date(),
-      sourceType:
-        request.consumerName === "checkmate-whatsapp" ? "internal" : "api",
-      consumerName: request.consumerName ?? "unknown",
-      type: request.imageUrl ? "image" : "text",
-      text: request.text ?? null,
-      imageUrl: request.imageUrl ?? null,
-      caption: request.caption ?? null,
-      checkId: null,
-      checkStatus: "pending",
+    // Check for similar submissions
+    const similar = await this.attachToSimilarCheck(
+      request,
+      submission,
+      checkCtx
+    );
+    if (similar) {
+      return similar.check;
+    }
+
+    const startResult = await this.startCheck(request, submission, checkCtx);
+    if (!startResult.success) {
+      return startResult;
+    }
+
+    return this.runPipeline(startResult.job, checkCtx);
+  }
+
+  /**
+   * Accepts a check without waiting for the pipeline to finish.
+   * The submission and check are created immediately with a pending status,
+   * and the pipeline is run in the background by the check requests queue consumer.
+   */
+  async submit(request: AgentRequest): Promise<SubmissionAcceptedResult> {
+    const logger = this.createRequestLogger(request);
+    logger.info("Async check request received");
+    const checkCtx = this.createCheckContext(logger);
+    const submission = this.createSubmission(request);
+
+    const similar = await this.attachToSimilarCheck(
+      request,
+      submission,
+      checkCtx
+    );
+    if (similar) {
+      return {
+        success: true,
+        id: similar.checkId,
+        result: {
+          submissionId: similar.submissionId,
+          checkId: similar.checkId,
+          checkStatus: getCheckStatus(similar.check.result.generationStatus),
+          generationStatus: similar.check.result
+            .generationStatus as Check["generationStatus"],
+        },
+      };
+    }
+
+    const startResult = await this.startCheck(request, submission, checkCtx);
+    if (!startResult.success) {
+      return startResult;
+    }
+    const { job } = startResult;
+
+    try {
+      await this.env.CHECK_REQUESTS_QUEUE.send(job);
+      logger.info(
+        { checkId: job.checkId, submissionId: job.submissionId },
+        "Check queued for processing"
+      );
+      return {
+        success: true,
+        id: job.checkId,
+        result: {
+          submissionId: job.submissionId,
+          checkId: job.checkId,
+          checkStatus: "pending",
+          generationStatus: "pending",
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      logger.error({ error, errorMessage }, "Failed to queue check");
+      await updateCheck(
+        job.checkId,
+        { generationStatus: "error-other" },
+        checkCtx,
+        this.ctx.waitUntil.bind(this.ctx)
+      );
+      await updateSubmissionsStatus(
+        job.checkId,
+        "error",
+        checkCtx,
+        this.ctx.waitUntil.bind(this.ctx)
+      );
+      await sendConsumerWebhookEvent(
+        job.checkId,
+        "errored",
+        { generationStatus: "error-other" },
+        checkCtx,
+        this.ctx.waitUntil.bind(this.ctx)
+      );
+      return {
+        success: false,
+        id: job.checkId,
+        error: { message: `Failed to queue check: ${errorMessage}` },
+      };
+    }
+  }
+
+  /**
+   * Returns the status of a submission and its linked check.
+   * If consumerName is given, submissions belonging to other consumers are treated as not found.
+   */
+  async getSubmission(
+    submissionId: string,
+    consumerName?: string
+  ): Promise<SubmissionStatusResult> {
+    const logger = this.logger.child({ submissionId });
+    try {
+      const submissionResult =
+        await this.env.DATABASE_SERVICE.findSubmissionById(submissionId);
+      const submission = submissionResult.data as Submission | undefined;
+      if (
+        !submissionResult.success ||
+        !submission ||
+        (consumerName && submission.consumerName !== consumerName)
+      ) {
+        return {
+          success: false,
+          error: {
+            message: "Submission not found",
+          },
+        };
+      }
+
+      let generationStatus: Check["generationStatus"] | null = null;
+      if (submission.checkId) {
+        const checkResult = await this.env.DATABASE_SERVICE.findCheckById(
+          submission.checkId
+        );
+        generationStatus = checkResult.data?.generationStatus ?? null;
+      }
+
+      return {
+        success: true,
+        id: submission._id,
+        result: {
+          submissionId: submission._id,
+          checkId: submission.checkId,
+          requestId: submission.requestId,
+          timestamp: submission.timestamp,
+          checkStatus: submission.checkStatus,
+          generationStatus,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      logger.error({ error, errorMessage }, "Failed to get submission");
+      return {
+        success: false,
+        error: {
+          message: errorMessage,
+        },
+      };
+    }
+  }
+
+  /**
+   * Translates English text, e.g. a human note, with the pipeline's
+   * translation step. Languages that fail to translate are left out.
+   */
+  async translate(
+    text: string,
+    languages: TranslatedLanguage[]
+  ): Promise<TranslationResult> {
+    const logger = this.logger.child({ languages });
+    const checkCtx = this.createCheckContext(logger);
+    const translations = await Promise.all(
+      languages.map(async (language) => {
+        try {
+          const translation = await requestTranslation(
+            { text, targetLanguage: TRANSLATION_TARGET_LANGUAGES[language] },
+            checkCtx
+          );
+          return [language, translation] as const;
+        } catch (error) {
+          logger.error({ error, language }, "Failed to translate text");
+          return null;
+        }
+      })
+    );
+    return {
+      success: true,
+      result: Object.fromEntries(
+        translations.filter((translation) => translation !== null)
+      ),
     };
+  }
+
+  // Answers health checks, showing the service is reachable over its binding
+  async healthCheck(): Promise<HealthCheckResult> {
+    return { success: true };
+  }
+
+  /**
+   * Erases a check and all data derived from the submitted content,
+   * for takedown and privacy requests
+   */
+  async eraseCheck(
+    checkId: string,
+    actor: string,
+    reason: string | null = null
+  ): Promise<CheckErasureResult> {
+    const logger = this.logger.child({ checkId });
+    return eraseCheck(checkId, actor, reason, this.createCheckContext(logger));
+  }
+
+  /**
+   * Queues a failed check to run again, resuming from the last step that
+   * succeeded instead of starting over
+   */
+  async retryCheck(checkId: string, actor: string): Promise<CheckRetryResult> {
+    const logger = this.logger.child({ checkId });
+    return retryCheck(checkId, actor, this.createCheckContext(logger));
+  }
+
+  /**
+   * Returns a newline-delimited JSON stream of CheckProgressEvents for a check.
+   * Events recorded so far are replayed, and the stream closes once the check finishes.
+   */
+  async streamProgress(
+    checkId: string
+  ): Promise<ReadableStream<Uint8Array> | ErrorResponse> {
+    const logger = this.logger.child({ checkId });
+    const checkCtx = this.createCheckContext(logger);
+    const stub = this.env.CHECK_PROGRESS.get(
+      this.env.CHECK_PROGRESS.idFromName(checkId)
+    );
+
+    try {
+      if (await stub.hasEvents()) {
+        return stub.subscribe();
+      }
+
+      const check = await getCheck(checkId, checkCtx);
+      if (!check.success) {
+        return check;
+      }
+      if (check.result.generationStatus === "pending") {
+        return stub.subscribe();
+      }
+
+      // The check finished before progress was recorded, or its events have expired
+      const timestamp = new Date().toISOString();
+      if (check.result.generationStatus.startsWith("error")) {
+        return createSingleEventStream({
+          type: "error",
+          error: { message: `Check failed: ${check.result.generationStatus}` },
+          checkId,
+          timestamp,
+        });
+      }
+      return createSingleEventStream({
+        type: "result",
+        result: check,
+        checkId,
+        timestamp,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      logger.error({ error, errorMessage }, "Failed to stream progress");
+      return {
+        success: false,
+        error: {
+          message: errorMessage,
+        },
+      };
+    }
+  }
 
+  async queue(batch: MessageBatch<unknown>): Promise<void> {
+    for (const message of batch.messages) {
+      const job = message.body as CheckJob;
+      const logger = this.createRequestLogger(job.request).child({
+        checkId: job.checkId,
+        submissionId: job.submissionId,
+      });
+      logger.info("Consuming check job from queue");
+      // runPipeline records failures on the check itself, so the message is never retried
+      await this.runPipeline(job, this.createCheckContext(logger));
+      message.ack();
+    }
+  }
+
+  private createRequestLogger(request: AgentRequest) {
     // Create logger with request context
     const { imageBase64, ...requestWithoutBase64 } = request as any;
-    const logger = this.logger.child({
+    return this.logger.child({
       request: {
         ...requestWithoutBase64,
         imageBase64: imageBase64
@@ -136,16 +449,50 @@ export default class extends WorkerEntrypoint<Env> {
           : undefined,
       },
     });
-    logger.info("Check request received");
-    // Create context object
-    const checkCtx: CheckContext = {
+  }
+
+  private createCheckContext(logger: CheckContext["logger"]): CheckContext {
+    return {
       env: this.env,
       logger,
       trace: null as any,
       ctx: this.ctx,
+      profile: getPipelineProfile(),
+      modelsUsed: {},
+      screenshotKeys: new Set(),
     };
+  }
 
-    // Check for similar submissions
+  private createSubmission(request: AgentRequest): Omit<Submission, "_id"> {
+    return {
+      requestId: request.id ?? null,
+      timestamp: new Date(),
+      sourceType:
+        request.consumerName === "checkmate-whatsapp" ? "internal" : "api",
+      consumerName: request.consumerName ?? "unknown",
+      type: request.imageUrl ? "image" : "text",
+      text: request.text ?? null,
+      imageUrl: request.imageUrl ?? null,
+      caption: request.caption ?? null,
+      checkId: null,
+      checkStatus: "pending",
+    };
+  }
+
+  /**
+   * If findSimilar is requested and an existing check matches, records a submission
+   * against that check and returns it. Returns null if a new check is needed.
+   */
+  private async attachToSimilarCheck(
+    request: AgentRequest,
+    submission: Omit<Submission, "_id">,
+    checkCtx: CheckContext
+  ): Promise<{
+    submissionId: string;
+    checkId: string;
+    check: AgentResponse;
+  } | null> {
+    const logger = checkCtx.logger;
     try {
       if (request.findSimilar) {
         const findSimilarResult = await findSimilar(request, checkCtx);
@@ -154,17 +501,15 @@ export default class extends WorkerEntrypoint<Env> {
             findSimilarResult.result?.isMatch &&
             findSimilarResult.result.id
           ) {
-            checkId = findSimilarResult.result.id;
+            const checkId = findSimilarResult.result.id;
             const check = await getCheck(checkId, checkCtx);
             if (check.success) {
-              submission.checkId = checkId;
-              submission.checkStatus = check.result.generationStatus as
-                | "pending"
-                | "completed"
-                | "error";
-
               const insertResult =
-                await this.env.DATABASE_SERVICE.insertSubmission(submission);
+                await this.env.DATABASE_SERVICE.insertSubmission({
+                  ...submission,
+                  checkId,
+                  checkStatus: getCheckStatus(check.result.generationStatus),
+                });
 
               if (!insertResult.success) {
                 throw new Error("Failed to insert submission");
@@ -179,7 +524,11 @@ export default class extends WorkerEntrypoint<Env> {
                 "Found similar submission, returning existing check result"
               );
 
-              return check;
+              return {
+                submissionId: insertResult.id,
+                checkId,
+                check,
+              };
             } else {
               logger.error(
                 { error: check.error },
@@ -199,24 +548,22 @@ export default class extends WorkerEntrypoint<Env> {
         "Error checking for similar submissions, proceeding with new check"
       );
     }
+    return null;
+  }
 
-    // Initialize Langfuse
-    const langfuse = new Langfuse({
-      environment: this.env.ENVIRONMENT,
-      publicKey: this.env.LANGFUSE_PUBLIC_KEY,
-      secretKey: this.env.LANGFUSE_SECRET_KEY,
-      baseUrl: this.env.LANGFUSE_HOST,
-    });
-
-    const sdk = new NodeSDK({
-      traceExporter: new LangfuseExporter({
-        publicKey: this.env.LANGFUSE_PUBLIC_KEY,
-        secretKey: this.env.LANGFUSE_SECRET_KEY,
-        baseUrl: this.env.LANGFUSE_HOST,
-      }),
-    });
-    sdk.start();
-
+  /**
+   * Inserts the submission and creates the pending check record
+   */
+  private async startCheck(
+    request: AgentRequest,
+    submission: Omit<Submission, "_id">,
+    checkCtx: CheckContext
+  ): Promise<
+    { success: true; job: CheckJob & { submissionId: string } } | ErrorResponse
+  > {
+    const logger = checkCtx.logger;
+    let submissionId: string | null = null;
+    let checkId: string | null = null;
     try {
       const result = await this.env.DATABASE_SERVICE.insertSubmission(
         submission
@@ -232,7 +579,7 @@ export default class extends WorkerEntrypoint<Env> {
         "Submission inserted, proceeding with check"
       );
 
-      if (!checkId) {
+      if (!checkId || !submissionId) {
         throw new Error("Missing check id");
       }
 
@@ -248,178 +595,400 @@ export default class extends WorkerEntrypoint<Env> {
         throw new Error("Failed to create check");
       }
 
-      notificationId = createCheckResult.result.notificationId;
+      return {
+        success: true,
+        job: {
+          request,
+          submissionId,
+          checkId,
+          notificationId: createCheckResult.result.notificationId,
+          timestamp,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      logger.error({ error, errorMessage }, "Error starting check");
+      if (submissionId) {
+        this.ctx.waitUntil(
+          this.env.DATABASE_SERVICE.updateSubmission(submissionId, {
+            checkStatus: "error",
+          }).catch((error) => {
+            logger.error("Failed to update submission");
+            throw error;
+          })
+        );
+      }
+      return {
+        id: checkId ?? undefined,
+        error: { message: errorMessage },
+        success: false,
+      };
+    }
+  }
+
+  /**
+   * Runs the check pipeline (Step 0 - 5) for a check that has already been created,
+   * and records the outcome on the check and its submissions
+   */
+  private async runPipeline(
+    job: CheckJob,
+    checkCtx: CheckContext
+  ): Promise<AgentResult> {
+    const { request, checkId, notificationId, timestamp } = job;
+    checkCtx.profile = getPipelineProfile(
+      request.pipelineProfile,
+      request.model
+    );
+    const logger = checkCtx.logger;
+    let communityNote: CommunityNote | null = null;
+    let longformReport: Report | null = null;
+    let isControversial = false;
+    let generationStatus: string = "pending";
+
+    // Initialize Langfuse
+    const langfuse = new Langfuse({
+      environment: this.env.ENVIRONMENT,
+      publicKey: this.env.LANGFUSE_PUBLIC_KEY,
+      secretKey: this.env.LANGFUSE_SECRET_KEY,
+      baseUrl: this.env.LANGFUSE_HOST,
+    });
+
+    const sdk = new NodeSDK({
+      traceExporter: new LangfuseExporter({
+        publicKey: this.env.LANGFUSE_PUBLIC_KEY,
+        secretKey: this.env.LANGFUSE_SECRET_KEY,
+        baseUrl: this.env.LANGFUSE_HOST,
+      }),
+    });
+    sdk.start();
+
+    // The step being run, which sets the error type if the check fails
+    let stage: CheckProgressStage | null = null;
+
+    try {
+      // Outputs of the steps that succeeded before, when retrying a check
+      let checkpoints: CheckCheckpoints = {};
+      if (job.resume) {
+        const checkResult = await this.env.DATABASE_SERVICE.findCheckById(
+          checkId
+        );
+        const check = checkResult.data as Check | undefined;
+        checkpoints = check?.checkpoints ?? {};
+        for (const key of check?.screenshotKeys ?? []) {
+          checkCtx.screenshotKeys.add(key);
+        }
+        logger.info(
+          { resumeFrom: getResumeStage(checkpoints) },
+          "Resuming check from checkpoints"
+        );
+      }
+      const saveCheckpoint = async <K extends keyof CheckCheckpoints>(
+        key: K,
+        value: CheckCheckpoints[K]
+      ) => {
+        checkpoints[key] = value;
+        // Screenshots are recorded as they are taken, in case the check never finishes
+        await updateCheck(
+          checkId,
+          {
+            [`checkpoints.${key}`]: value,
+            screenshotKeys: [...checkCtx.screenshotKeys],
+          },
+          checkCtx
+        );
+      };
+
+      // A retried check keeps the pipeline profile of its first run
+      if (checkpoints.profile) {
+        checkCtx.profile = checkpoints.profile;
+      } else {
+        await saveCheckpoint("profile", checkCtx.profile);
+      }
 
       // Create Langfuse trace
       const trace = langfuse.trace({
         name: "ai-checker-service-check",
         input: request,
         id: checkId,
+        metadata: {
+          pipelineProfile: checkCtx.profile,
+          resumeFrom: job.resume ? getResumeStage(checkpoints) : null,
+        },
       });
 
       checkCtx.trace = trace;
+      checkCtx.emitProgress = createProgressEmitter(checkId, checkCtx);
 
-      // Step 0: Download image
-      if (request.imageUrl) {
-        checkCtx.logger.info("Step 0: Downloading image");
-        const downloadImageResult = await downloadImage(
-          {
-            imageUrl: request.imageUrl,
-            id: checkId,
-          },
-          checkCtx
+      let preprocessingResult = checkpoints.preprocess;
+      if (!preprocessingResult) {
+        // Step 0: Download image
+        if (request.imageUrl) {
+          checkCtx.logger.info("Step 0: Downloading image");
+          stage = "download-image";
+          checkCtx.emitProgress({
+            type: "stage",
+            stage,
+            step: 0,
+            message: "Downloading image",
+          });
+          const downloadImageResult = await downloadImage(
+            {
+              imageUrl: request.imageUrl,
+              id: checkId,
+            },
+            checkCtx
+          );
+          if (downloadImageResult.success) {
+            request.imageBase64 = downloadImageResult.result.base64;
+          }
+        }
+
+        // Step 1: Extract URLs
+        checkCtx.logger.info("Step 1: Extracting URLs");
+        stage = "extract-urls";
+        checkCtx.emitProgress({
+          type: "stage",
+          stage,
+          step: 1,
+          message: "Extracting links",
+        });
+        const extractionResult = await extractUrls(request, checkCtx);
+        if (!extractionResult.success) {
+          checkCtx.logger.error("Failed to extract URLs");
+        }
+
+        // Step 2: Preprocess inputs
+        checkCtx.logger.info("Step 2: Preprocessing inputs");
+        stage = "preprocess";
+        checkCtx.emitProgress({
+          type: "stage",
+          stage,
+          step: 2,
+          message: "Understanding the message",
+        });
+        const preprocessingRequest = {
+          ...request,
+          extractedUrls: extractionResult.urls,
+        };
+        const preprocessingResponse = await withStepRetries(
+          stage,
+          checkCtx,
+          () => preprocessInputs(preprocessingRequest, checkCtx)
+        );
+        logger.info(
+          truncateBase64({ preprocessingResponse }),
+          "Preprocessing response"
         );
-        if (downloadImageResult.success) {
-          request.imageBase64 = downloadImageResult.result.base64;
+        if (!("result" in preprocessingResponse)) {
+          throw new Error("No preprocessing result");
         }
-      }
+        const { intent, startingContent, isAccessBlocked, isVideo, title } =
+          preprocessingResponse.result;
+        preprocessingResult = {
+          intent,
+          startingContent,
+          isAccessBlocked,
+          isVideo,
+          title,
+        };
+        await saveCheckpoint("preprocess", preprocessingResult);
 
-      // Step 1: Extract URLs
-      checkCtx.logger.info("Step 1: Extracting URLs");
-      const extractionResult = await extractUrls(request, checkCtx);
-      if (!extractionResult.success) {
-        checkCtx.logger.error("Failed to extract URLs");
-      }
+        this.logger.info(
+          truncateBase64({ preprocessingResult }),
+          "Preprocessing result"
+        );
 
-      // Step 2: Preprocess inputs
-      checkCtx.logger.info("Step 2: Preprocessing inputs");
-      const preprocessingRequest = {
-        ...request,
-        extractedUrls: extractionResult.urls,
-      };
-      const preprocessingResponse = await preprocessInputs(
-        preprocessingRequest,
-        checkCtx
-      );
-      if (!preprocessingResponse.success) {
-        logger.error("Failed to preprocess inputs");
-      }
-      logger.info(
-        truncateBase64({ preprocessingResponse }),
-        "Preprocessing response"
-      );
-      if (!("result" in preprocessingResponse)) {
-        logger.error("No preprocessing result");
-        return {
-          success: false,
-          error: {
-            message: "No preprocessing result",
+        // Update check with preprocessing results as a background operation
+        await updateCheck(
+          checkId,
+          {
+            isAccessBlocked: isAccessBlocked,
+            isVideo: isVideo,
+            machineCategory: null,
+            title: title,
+            slug: title ? getSlugFromTitle(title, checkId) : null,
           },
-        };
+          checkCtx,
+          this.ctx.waitUntil.bind(this.ctx)
+        );
       }
-      const preprocessingResult = preprocessingResponse.result;
-
-      const intent = preprocessingResult.intent;
-      const startingContent = preprocessingResult.startingContent;
-      isAccessBlocked = preprocessingResult.isAccessBlocked;
-      isVideo = preprocessingResult.isVideo;
-      title = preprocessingResult.title;
-      slug = title ? getSlugFromTitle(title, checkId) : null;
-
-      this.logger.info(
-        truncateBase64({ preprocessingResult }),
-        "Preprocessing result"
-      );
+      const { intent } = preprocessingResult;
+      const startingContent = preprocessingResult.startingContent as any[];
 
-      // Update check with preprocessing results as a background operation
-      await updateCheck(
-        checkId,
-        {
-          isAccessBlocked: isAccessBlocked,
-          isVideo: isVideo,
-          machineCategory: null,
-          title: title,
-          slug: slug,
-        },
-        checkCtx,
-        this.ctx.waitUntil.bind(this.ctx)
-      );
+      let claims = checkpoints.claims;
+      if (!claims) {
+        // Step 2b: Split the content into the claims to check
+        this.logger.info("Step 2b: Extracting claims");
+        stage = "extract-claims";
+        checkCtx.emitProgress({
+          type: "stage",
+          stage,
+          step: 2,
+          message: "Identifying claims",
+        });
+        claims = await withStepRetries(stage, checkCtx, () =>
+          extractClaims({ startingMessages: startingContent, intent }, checkCtx)
+        );
+        await saveCheckpoint("claims", claims);
+      }
+      const extractedClaims = claims;
 
-      // Step 3: Agent loop
-      this.logger.info("Step 3: Running agent loop");
-      const agentLoopResult = await runAgentLoop(
-        {
-          startingMessages: startingContent,
-          intent: intent,
-        },
-        checkCtx
-      );
+      let agentLoopResult = checkpoints.agentLoop;
+      if (!agentLoopResult) {
+        // Step 3: Agent loop
+        this.logger.info("Step 3: Running agent loop");
+        stage = "agent-loop";
+        checkCtx.emitProgress({
+          type: "stage",
+          stage,
+          step: 3,
+          message: "Researching",
+        });
+        agentLoopResult = await withStepRetries(stage, checkCtx, () =>
+          runAgentLoop(
+            {
+              startingMessages: startingContent,
+              intent: intent,
+              claims: extractedClaims,
+            },
+            checkCtx
+          )
+        );
+        await saveCheckpoint("agentLoop", agentLoopResult);
+
+        this.logger.info({ agentLoopResult }, "Agent loop result");
 
-      this.logger.info({ agentLoopResult }, "Agent loop result");
+        await updateCheck(
+          checkId,
+          {
+            isControversial: agentLoopResult.isControversial,
+            claims: agentLoopResult.claims,
+            longformResponse: {
+              en: agentLoopResult.report,
+              cn: null,
+              ms: null,
+              id: null,
+              ta: null,
+              links: agentLoopResult.sources,
+              timestamp: timestamp,
+            },
+          },
+          checkCtx,
+          this.ctx.waitUntil.bind(this.ctx)
+        );
+      }
 
       isControversial = agentLoopResult.isControversial;
-      const report = agentLoopResult.report;
       const sources = agentLoopResult.sources;
 
       longformReport = {
-        en: report,
+        en: agentLoopResult.report,
         cn: null,
         links: sources,
         timestamp: timestamp,
       };
 
-      await updateCheck(
-        checkId,
-        {
-          isControversial,
-          longformResponse: {
-            en: report,
-            cn: null,
-            ms: null,
-            id: null,
-            ta: null,
-            links: sources,
-            timestamp: timestamp,
-          },
-        },
-        checkCtx,
-        this.ctx.waitUntil.bind(this.ctx)
-      );
+      // Classify the verdict alongside the summary. A check without a machine
+      // category is still usable, so a failed classification doesn't fail the check.
+      const report = agentLoopResult.report;
+      const classificationPromise = checkpoints.classification
+        ? Promise.resolve(checkpoints.classification)
+        : classifyVerdict({ intent, report }, checkCtx)
+            .then(async (classification) => {
+              await saveCheckpoint("classification", classification);
+              return classification;
+            })
+            .catch((error) => {
+              logger.error({ error }, "Failed to classify verdict");
+              return null;
+            });
 
-      // Step 4: Summarize report
-      this.logger.info("Step 4: Summarizing report");
-      const summary = await summarizeReport(
-        {
-          startingMessages: startingContent,
-          intent: intent,
-          report: agentLoopResult.report,
-        },
-        checkCtx
+      let summary = checkpoints.summary;
+      if (summary === undefined) {
+        // Step 4: Summarize report
+        this.logger.info("Step 4: Summarizing report");
+        stage = "summarize";
+        checkCtx.emitProgress({
+          type: "stage",
+          stage,
+          step: 4,
+          message: "Summarizing report",
+        });
+        summary = await withStepRetries(stage, checkCtx, () =>
+          summarizeReport(
+            {
+              startingMessages: startingContent,
+              intent: intent,
+              report,
+            },
+            checkCtx
+          )
+        );
+        await saveCheckpoint("summary", summary);
+
+        this.logger.info({ summary }, "Summary");
+      }
+      const summaryText = summary;
+
+      // Step 5: Translate summary into the languages of the pipeline profile,
+      // skipping those translated before a retry
+      const translations = { ...checkpoints.translations };
+      const missingLanguages = checkCtx.profile.languages.filter(
+        (language) => translations[language] === undefined
       );
+      if (missingLanguages.length > 0) {
+        this.logger.info({ missingLanguages }, "Step 5: Translating summary");
+        stage = "translate";
+        checkCtx.emitProgress({
+          type: "stage",
+          stage,
+          step: 5,
+          message: "Translating community note",
+        });
+        await Promise.all(
+          missingLanguages.map(async (language) => {
+            const translation = await withStepRetries(
+              "translate",
+              checkCtx,
+              () =>
+                requestTranslation(
+                  {
+                    text: summaryText,
+                    targetLanguage: TRANSLATION_TARGET_LANGUAGES[language],
+                  },
+                  checkCtx
+                )
+            );
+            translations[language] = translation;
+            await updateCheck(
+              checkId,
+              { [`checkpoints.translations.${language}`]: translation },
+              checkCtx
+            );
+          })
+        );
+      }
+      stage = null;
 
-      this.logger.info({ summary }, "Summary");
-
-      // Step 5: Translate summary into all languages
-      this.logger.info("Step 5: Translating summary");
-      const [
-        translationChinese,
-        translationMalay,
-        translationIndonesian,
-        translationTamil,
-      ] = await Promise.all([
-        translateText({ text: summary, targetLanguage: "Chinese" }, checkCtx),
-        translateText(
-          { text: summary, targetLanguage: "Bahasa Melayu" },
-          checkCtx
-        ),
-        translateText(
-          { text: summary, targetLanguage: "Bahasa Indonesia" },
-          checkCtx
-        ),
-        translateText({ text: summary, targetLanguage: "Tamil" }, checkCtx),
-      ]);
+      const classification = await classificationPromise;
       generationStatus = "completed";
       // Update check with completion results as a background operation
       await updateCheck(
         checkId,
         {
           generationStatus: generationStatus,
+          modelsUsed: checkCtx.modelsUsed,
+          screenshotKeys: [...checkCtx.screenshotKeys],
+          checkpoints: null,
+          machineCategory: classification?.category ?? null,
+          machineCategoryConfidence: classification?.confidence ?? null,
           shortformResponse: {
-            en: summary,
-            cn: translationChinese,
-            ms: translationMalay,
-            id: translationIndonesian,
-            ta: translationTamil,
+            en: summaryText,
+            cn: translations.cn ?? null,
+            ms: translations.ms ?? null,
+            id: translations.id ?? null,
+            ta: translations.ta ?? null,
             downvoted: false,
             links: sources,
             timestamp: timestamp,
@@ -430,11 +999,11 @@ export default class extends WorkerEntrypoint<Env> {
       );
 
       communityNote = {
-        en: summary,
-        cn: translationChinese,
-        ms: translationMalay,
-        id: translationIndonesian,
-        ta: translationTamil,
+        en: summaryText,
+        cn: translations.cn ?? null,
+        ms: translations.ms ?? null,
+        id: translations.id ?? null,
+        ta: translations.ta ?? null,
         links: agentLoopResult.sources,
         timestamp: timestamp,
       };
@@ -466,6 +1035,9 @@ export default class extends WorkerEntrypoint<Env> {
           isHumanAssessed: false,
           isVoteTriggered: false,
           crowdsourcedCategory: null,
+          machineCategory: classification?.category ?? null,
+          machineCategoryConfidence: classification?.confidence ?? null,
+          claims: agentLoopResult.claims,
         },
       };
 
@@ -484,14 +1056,19 @@ export default class extends WorkerEntrypoint<Env> {
         logger.error("Failed to send community note notification");
       }
 
-      //Update submission with completed status
-      this.ctx.waitUntil(
-        this.env.DATABASE_SERVICE.updateSubmission(submissionId, {
-          checkStatus: "completed",
-        }).catch((error) => {
-          this.logger.error("Failed to update submission");
-          throw error;
-        })
+      //Update submissions with completed status
+      await updateSubmissionsStatus(
+        checkId,
+        "completed",
+        checkCtx,
+        this.ctx.waitUntil.bind(this.ctx)
+      );
+      await sendConsumerWebhookEvent(
+        checkId,
+        "completed",
+        { generationStatus },
+        checkCtx,
+        this.ctx.waitUntil.bind(this.ctx)
       );
 
       trace.update({
@@ -504,50 +1081,48 @@ export default class extends WorkerEntrypoint<Env> {
         ],
       });
 
+      checkCtx.emitProgress({ type: "result", result: agentResponse });
+
       return agentResponse;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error occurred";
       this.logger.error({ error, errorMessage }, "Error in agent check");
 
-      // Determine what type of error occurred based on error message or stack trace
-      let errorType: ErrorType = "error";
-      if (errorMessage.includes("preprocessing")) {
-        errorType = "error-preprocessing";
-      } else if (errorMessage.includes("agent loop")) {
-        errorType = "error-agentLoop";
-      } else if (errorMessage.includes("summarise")) {
-        errorType = "error-summarization";
-      } else if (errorMessage.includes("translate")) {
-        errorType = "error-translation";
-      } else {
-        errorType = "error-other";
-      }
+      const errorType: ErrorType =
+        (stage && STAGE_ERROR_TYPES[stage]) ?? "error-other";
       generationStatus = errorType;
       // Update check with error status as a background operation
       await updateCheck(
-        checkId ?? "",
+        checkId,
         {
           generationStatus: generationStatus,
+          modelsUsed: checkCtx.modelsUsed,
+          screenshotKeys: [...checkCtx.screenshotKeys],
         },
         checkCtx,
         this.ctx.waitUntil.bind(this.ctx)
       );
 
-      //Update submission with error status
-      this.ctx.waitUntil(
-        this.env.DATABASE_SERVICE.updateSubmission(submissionId, {
-          checkStatus: "error",
-        }).catch((error) => {
-          this.logger.error("Failed to update submission");
-          throw error;
-        })
+      //Update submissions with error status
+      await updateSubmissionsStatus(
+        checkId,
+        "error",
+        checkCtx,
+        this.ctx.waitUntil.bind(this.ctx)
+      );
+      await sendConsumerWebhookEvent(
+        checkId,
+        "errored",
+        { generationStatus },
+        checkCtx,
+        this.ctx.waitUntil.bind(this.ctx)
       );
       //notify block
       try {
         sendCommunityNoteNotification(
           {
-            id: checkId ?? "",
+            id: checkId,
             replyId: notificationId,
             communityNote: null,
             isError: true,
@@ -559,10 +1134,11 @@ export default class extends WorkerEntrypoint<Env> {
         logger.error("Failed to send community note notification");
       }
       const errorReturn = {
-        id: checkId ?? undefined,
-        error: { message: errorMessage },
+        id: checkId,
+        error: { message: errorMessage, code: errorType },
         success: false as const,
       };
+      checkCtx.emitProgress?.({ type: "error", error: errorReturn.error });
       checkCtx.trace?.update({
         output: errorReturn,
         tags: [
@@ -575,9 +1151,9 @@ export default class extends WorkerEntrypoint<Env> {
       });
       return errorReturn;
     } finally {
-      // Trigger voting
+      // Trigger voting, unless the pipeline profile leaves it out
       try {
-        if (checkId) {
+        if (checkId && checkCtx.profile.triggerVoting) {
           await triggerVoting(
             {
               id: checkId,
@@ -107,6 +107,9 @@ export async function createCheck(
         notificationId: null,
         communityNoteNotificationId: null,
         isReport: request.isReport ?? false,
+        consumerName: request.consumerName ?? null,
+        pipelineProfile: request.pipelineProfile ?? null,
+        model: request.model ?? null,
       },
       id
     );
@@ -0,0 +1,150 @@
+import { Check, CheckErasureResult } from "@workspace/shared-types";
+import { CheckContext } from "../types";
+import { getImageR2Key } from "../steps/download-image";
+
+/**
+ * Gets the keys of the screenshots recorded on a check that no other check
+ * uses, as screenshots are cached by URL and shared between checks
+ */
+async function getScreenshotKeys(check: Check, checkCtx: CheckContext) {
+  const screenshotKeys = check.screenshotKeys ?? [];
+  if (screenshotKeys.length === 0) {
+    return [];
+  }
+  const sharedResult =
+    await checkCtx.env.DATABASE_SERVICE.findSharedScreenshotKeys(
+      check._id,
+      screenshotKeys
+    );
+  if (!sharedResult.success) {
+    throw new Error(sharedResult.error || "Failed to find shared screenshots");
+  }
+  const sharedKeys: string[] = sharedResult.data ?? [];
+  return screenshotKeys.filter((key) => !sharedKeys.includes(key));
+}
+
+/**
+ * Deletes the Langfuse trace of a check, which holds its full input and output.
+ * Returns false if there was no trace.
+ */
+async function deleteTrace(checkId: string, checkCtx: CheckContext) {
+  const env = checkCtx.env;
+  const credentials = btoa(
+    `${env.LANGFUSE_PUBLIC_KEY}:${env.LANGFUSE_SECRET_KEY}`
+  );
+  const response = await fetch(
+    `${env.LANGFUSE_HOST}/api/public/traces/${checkId}`,
+    {
+      method: "DELETE",
+      headers: { Authorization: `Basic ${credentials}` },
+    }
+  );
+  if (response.status === 404) {
+    return false;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to delete Langfuse trace: ${response.status}`);
+  }
+  return true;
+}
+
+/**
+ * Erases a check and everything derived from the submitted content: the
+ * cached image, the screenshots only it used, its Langfuse trace, its
+ * submissions and audit entries. The check is replaced by a tombstone, so it can't be
+ * recreated or matched by findSimilar again.
+ *
+ * Stored objects are removed before the check, so a failed erasure can be
+ * retried without losing track of them.
+ */
+export async function eraseCheck(
+  checkId: string,
+  actor: string,
+  reason: string | null,
+  checkCtx: CheckContext
+): Promise<CheckErasureResult> {
+  const logger = checkCtx.logger.child({ function: "eraseCheck", checkId });
+  const env = checkCtx.env;
+
+  try {
+    const checkResult = await env.DATABASE_SERVICE.findCheckById(checkId);
+    const check = checkResult.data as Check | undefined;
+    if (!check) {
+      // The check may already have been erased, in which case this is a no-op
+      const erasureResult = await env.DATABASE_SERVICE.eraseCheck(
+        checkId,
+        actor,
+        reason
+      );
+      if (!erasureResult.success) {
+        return {
+          success: false,
+          error: {
+            message: "Check not found",
+          },
+        };
+      }
+      return {
+        success: true,
+        id: checkId,
+        result: {
+          checkId,
+          submissionsDeleted: 0,
+          objectsDeleted: 0,
+          traceDeleted: false,
+        },
+      };
+    }
+
+    const imageKeys = [
+      ...(check.r2ObjectKey ? [check.r2ObjectKey] : []),
+      ...(check.imageUrl ? [await getImageR2Key(check.imageUrl)] : []),
+    ];
+    const screenshotKeys = await getScreenshotKeys(check, checkCtx);
+
+    await env.CHECKMATE_IMAGES_BUCKET.delete(imageKeys);
+    await env.SCREENSHOT_BUCKET.delete(screenshotKeys);
+    const traceDeleted = await deleteTrace(checkId, checkCtx);
+
+    const erasureResult = await env.DATABASE_SERVICE.eraseCheck(
+      checkId,
+      actor,
+      reason
+    );
+    if (!erasureResult.success) {
+      throw new Error(erasureResult.error || "Failed to erase check");
+    }
+
+    logger.info(
+      {
+        actor,
+        imageKeys,
+        screenshotKeys,
+        traceDeleted,
+        submissionsDeleted: erasureResult.data.submissionsDeleted,
+      },
+      "Erased check"
+    );
+    return {
+      success: true,
+      id: checkId,
+      result: {
+        checkId,
+        submissionsDeleted: erasureResult.data.submissionsDeleted,
+        objectsDeleted: imageKeys.length + screenshotKeys.length,
+        traceDeleted,
+      },
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    logger.error({ error, errorMessage }, "Failed to erase check");
+    return {
+      success: false,
+      error: {
+        message: `Error erasing check: ${errorMessage}`,
+        code: "ERASE_CHECK_ERROR",
+      },
+    };
+  }
+}
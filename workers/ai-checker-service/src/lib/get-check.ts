@@ -43,6 +43,9 @@ export async function getCheck(
         slug: check.slug,
         timestamp: check.timestamp,
         crowdsourcedCategory: check.crowdsourcedCategory,
+        machineCategory: check.machineCategory ?? null,
+        machineCategoryConfidence: check.machineCategoryConfidence ?? null,
+        claims: check.claims ?? null,
         isHumanAssessed: check.isHumanAssessed,
         isVoteTriggered: check.isVoteTriggered,
       },
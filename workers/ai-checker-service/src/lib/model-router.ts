@@ -0,0 +1,139 @@
+import { APICallError, LanguageModel, RetryError } from "ai";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAI } from "@ai-sdk/openai";
+import { PipelineStep } from "@workspace/shared-types";
+import { getProviderFromModel } from "@workspace/shared-utils";
+import { CheckContext } from "../types";
+
+// Consecutive failures after which a model is skipped for a while
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_OPEN_MS = 60 * 1000; // 1 minute
+
+/**
+ * Why a model call failed. Bad requests fail the step straight away, as
+ * another model would be sent the same request. Anything else falls back to
+ * the next model.
+ */
+export type ModelErrorKind = "rate-limit" | "bad-request" | "unavailable";
+
+// Circuit breakers are kept per isolate, so each isolate learns about an outage on its own
+const circuits = new Map<string, { failures: number; openUntil: number }>();
+
+/**
+ * Creates the AI SDK model for a model name from a pipeline profile,
+ * e.g. gpt-5-mini or gemini-2.5-pro
+ */
+export function createModel(modelName: string, env: Env): LanguageModel {
+  const provider = getProviderFromModel(modelName);
+  if (provider === "openai") {
+    const openai = createOpenAI({
+      apiKey: env.OPENAI_API_KEY,
+    });
+    return openai(modelName);
+  }
+  if (provider === "vertex-ai") {
+    const google = createGoogleGenerativeAI({
+      apiKey: env.GEMINI_API_KEY,
+    });
+    return google(modelName);
+  }
+  throw new Error(`Unsupported model: ${modelName}`);
+}
+
+export function classifyModelError(error: unknown): ModelErrorKind {
+  // The AI SDK wraps the last error once its own retries are used up
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  if (APICallError.isInstance(cause) && cause.statusCode !== undefined) {
+    if (cause.statusCode === 429) {
+      return "rate-limit";
+    }
+    // Authentication errors and unknown models are specific to the provider, so another one may work
+    if (
+      cause.statusCode >= 400 &&
+      cause.statusCode < 500 &&
+      ![401, 403, 404, 408].includes(cause.statusCode)
+    ) {
+      return "bad-request";
+    }
+  }
+  return "unavailable";
+}
+
+/**
+ * Whether a failed call may succeed when made again, i.e. the provider was
+ * rate limited, unavailable or unreachable. Other errors, such as a response
+ * that does not match its schema, are not raised by the provider.
+ */
+export function isTransientModelError(error: unknown): boolean {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  return (
+    APICallError.isInstance(cause) &&
+    classifyModelError(cause) !== "bad-request"
+  );
+}
+
+function isCircuitOpen(modelName: string) {
+  const circuit = circuits.get(modelName);
+  return circuit !== undefined && circuit.openUntil > Date.now();
+}
+
+function recordSuccess(modelName: string) {
+  circuits.delete(modelName);
+}
+
+function recordFailure(modelName: string) {
+  const failures = (circuits.get(modelName)?.failures ?? 0) + 1;
+  circuits.set(modelName, {
+    failures,
+    openUntil:
+      failures >= CIRCUIT_FAILURE_THRESHOLD ? Date.now() + CIRCUIT_OPEN_MS : 0,
+  });
+}
+
+/**
+ * Runs a step of the pipeline with the models of its pipeline profile,
+ * falling back to the next model when one is rate limited or unavailable.
+ * Models whose circuit is open are skipped, unless every model's is.
+ * The model that succeeded is recorded in checkCtx.modelsUsed.
+ */
+export async function withModelFallback<T>(
+  step: PipelineStep,
+  checkCtx: CheckContext,
+  run: (model: LanguageModel, modelName: string) => Promise<T>
+): Promise<T> {
+  const logger = checkCtx.logger.child({ function: "withModelFallback", step });
+  const modelNames = checkCtx.profile.models[step];
+  const availableModelNames = modelNames.filter(
+    (modelName) => !isCircuitOpen(modelName)
+  );
+  const candidates =
+    availableModelNames.length > 0 ? availableModelNames : modelNames;
+  if (candidates.length === 0) {
+    throw new Error(`No models configured for ${step}`);
+  }
+
+  let lastError: unknown;
+  for (const modelName of candidates) {
+    try {
+      const result = await run(createModel(modelName, checkCtx.env), modelName);
+      recordSuccess(modelName);
+      checkCtx.modelsUsed[step] = modelName;
+      return result;
+    } catch (error) {
+      const errorKind = classifyModelError(error);
+      if (errorKind === "bad-request") {
+        throw error;
+      }
+      // Only the provider's failures count towards opening the circuit
+      if (isTransientModelError(error)) {
+        recordFailure(modelName);
+      }
+      logger.warn(
+        { error, errorKind, modelName },
+        "Model failed, falling back to the next model"
+      );
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,51 @@
+import {
+  CheckProgressEvent,
+  CheckProgressEventData,
+} from "@workspace/shared-types";
+import { CheckContext } from "../types";
+
+/**
+ * Creates an emitter that publishes pipeline progress for a check to its
+ * CheckProgress Durable Object. Publishing runs in the background and never
+ * fails the check. A single stub is reused so events are delivered in order.
+ */
+export function createProgressEmitter(
+  checkId: string,
+  checkCtx: CheckContext
+): (event: CheckProgressEventData) => void {
+  const logger = checkCtx.logger.child({ function: "publishProgress" });
+  const env = checkCtx.env;
+  const stub = env.CHECK_PROGRESS.get(env.CHECK_PROGRESS.idFromName(checkId));
+
+  return (event: CheckProgressEventData) => {
+    const progressEvent: CheckProgressEvent = {
+      ...event,
+      checkId,
+      timestamp: new Date().toISOString(),
+    };
+    checkCtx.ctx.waitUntil(
+      stub.publish(progressEvent).catch((error) => {
+        logger.error(
+          { error, checkId, type: event.type },
+          "Failed to publish progress"
+        );
+      })
+    );
+  };
+}
+
+/**
+ * Returns a stream containing a single event, for checks that finished
+ * before any progress was recorded
+ */
+export function createSingleEventStream(
+  event: CheckProgressEvent
+): ReadableStream<Uint8Array> {
+  const chunk = new TextEncoder().encode(JSON.stringify(event) + "\n");
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,133 @@
+import {
+  AgentRequest,
+  Check,
+  CheckCheckpoints,
+  CheckProgressStage,
+  CheckRetryResult,
+} from "@workspace/shared-types";
+import { CheckContext, CheckJob } from "../types";
+import { updateSubmissionsStatus } from "./update-submissions";
+
+/**
+ * Returns the step a check will resume from, which is the first step
+ * without a checkpoint
+ */
+export function getResumeStage(
+  checkpoints: CheckCheckpoints | null | undefined
+): CheckProgressStage {
+  if (!checkpoints?.preprocess) {
+    return "preprocess";
+  }
+  if (!checkpoints.claims) {
+    return "extract-claims";
+  }
+  if (!checkpoints.agentLoop) {
+    return "agent-loop";
+  }
+  if (checkpoints.summary === undefined) {
+    return "summarize";
+  }
+  return "translate";
+}
+
+/**
+ * Queues a failed check to run its pipeline again, resuming after the steps
+ * that succeeded. Only checks whose generation errored can be retried.
+ */
+export async function retryCheck(
+  checkId: string,
+  actor: string,
+  checkCtx: CheckContext
+): Promise<CheckRetryResult> {
+  const logger = checkCtx.logger.child({ function: "retryCheck" });
+  const env = checkCtx.env;
+
+  try {
+    const checkResult = await env.DATABASE_SERVICE.findCheckById(checkId);
+    if (!checkResult.success || !checkResult.data) {
+      return {
+        success: false,
+        error: {
+          message: "Check not found",
+        },
+      };
+    }
+    const check = checkResult.data as Check;
+    if (!check.generationStatus.startsWith("error")) {
+      return {
+        success: false,
+        error: {
+          message: `Only checks that errored can be retried, this check is ${check.generationStatus}`,
+          code: "CHECK_NOT_RETRYABLE",
+        },
+      };
+    }
+
+    // The request is rebuilt from the check, as the original request is not kept
+    const request = {
+      ...(check.imageUrl
+        ? { imageUrl: check.imageUrl, caption: check.caption ?? undefined }
+        : { text: check.text ?? "" }),
+      isReport: check.isReport,
+      consumerName: check.consumerName ?? undefined,
+      pipelineProfile: check.pipelineProfile ?? undefined,
+      model: check.model ?? undefined,
+    } as AgentRequest;
+
+    const job: CheckJob = {
+      request,
+      submissionId: null,
+      checkId,
+      notificationId: check.notificationId,
+      timestamp: new Date(check.timestamp),
+      resume: true,
+    };
+
+    // Only the retry whose update matched queues the check
+    const updateResult = await env.DATABASE_SERVICE.updateErroredCheck(
+      checkId,
+      { generationStatus: "pending" },
+      actor
+    );
+    if (!updateResult.success) {
+      throw new Error(updateResult.error || "Failed to update check");
+    }
+    if (!updateResult.updated) {
+      return {
+        success: false,
+        error: {
+          message: "This check is already being retried",
+          code: "CHECK_NOT_RETRYABLE",
+        },
+      };
+    }
+    await updateSubmissionsStatus(checkId, "pending", checkCtx);
+    // Subscribers would otherwise be sent the error of the previous run
+    const progress = env.CHECK_PROGRESS.get(
+      env.CHECK_PROGRESS.idFromName(checkId)
+    );
+    await progress.reset();
+    await env.CHECK_REQUESTS_QUEUE.send(job);
+
+    const resumeFrom = getResumeStage(check.checkpoints);
+    logger.info({ actor, resumeFrom }, "Check queued for retry");
+    return {
+      success: true,
+      id: checkId,
+      result: {
+        checkId,
+        resumeFrom,
+      },
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    logger.error({ error, errorMessage }, "Failed to retry check");
+    return {
+      success: false,
+      error: {
+        message: errorMessage,
+      },
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  CheckLifecycleEvent,
+  CheckLifecycleEventType,
+  ErrorResponse,
+  ServiceResponse,
+} from "@workspace/shared-types";
+import { CheckContext } from "../types";
+
+export interface SendConsumerWebhookEventResult extends ServiceResponse {
+  success: true;
+  result: {
+    checkId: string;
+  };
+}
+
+export type SendConsumerWebhookEventResponse =
+  | SendConsumerWebhookEventResult
+  | ErrorResponse;
+
+/**
+ * Queues a check lifecycle event, which the api-entrypoint delivers to the
+ * webhooks of every consumer that submitted the check
+ */
+export async function sendConsumerWebhookEvent(
+  checkId: string,
+  type: CheckLifecycleEventType,
+  data: Record<string, unknown>,
+  checkCtx: CheckContext,
+  waitUntil?: (promise: Promise<any>) => void
+): Promise<SendConsumerWebhookEventResponse> {
+  const logger = checkCtx.logger.child({
+    function: "sendConsumerWebhookEvent",
+  });
+  const env = checkCtx.env;
+  const event: CheckLifecycleEvent = {
+    checkId,
+    type,
+    timestamp: new Date().toISOString(),
+    data,
+  };
+
+  try {
+    if (waitUntil) {
+      // Run in background
+      waitUntil(
+        env.CONSUMER_WEBHOOK_EVENTS_QUEUE.send(event).catch((error) => {
+          logger.error(
+            { error, checkId, type },
+            "Failed to send consumer webhook event"
+          );
+        })
+      );
+    } else {
+      await env.CONSUMER_WEBHOOK_EVENTS_QUEUE.send(event);
+    }
+    return {
+      success: true,
+      result: {
+        checkId,
+      },
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    logger.error(
+      { error, checkId, type },
+      "Failed to send consumer webhook event"
+    );
+    return {
+      success: false,
+      error: {
+        message: `Error sending consumer webhook event: ${errorMessage}`,
+        code: "SEND_CONSUMER_WEBHOOK_EVENT_ERROR",
+        details: error,
+      },
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { CheckProgressStage } from "@workspace/shared-types";
+import { CheckContext } from "../types";
+import { isTransientModelError } from "./model-router";
+
+// Retries of a failed step before the check is marked as errored
+const STEP_RETRIES = 2;
+const STEP_RETRY_DELAY_MS = 2000; // Doubled after every retry
+
+/**
+ * Runs a step of the pipeline, retrying it when it fails with a transient
+ * error such as every model being rate limited. Other errors are not retried,
+ * as they would fail the same way again.
+ */
+export async function withStepRetries<T>(
+  stage: CheckProgressStage,
+  checkCtx: CheckContext,
+  run: () => Promise<T>
+): Promise<T> {
+  const logger = checkCtx.logger.child({ function: "withStepRetries", stage });
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (attempt >= STEP_RETRIES || !isTransientModelError(error)) {
+        throw error;
+      }
+      const delayMs = STEP_RETRY_DELAY_MS * 2 ** attempt;
+      logger.warn({ error, attempt, delayMs }, "Step failed, retrying");
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  Check,
+  ErrorResponse,
+  ServiceResponse,
+  Submission,
+} from "@workspace/shared-types";
+import { CheckContext } from "../types";
+
+export interface UpdateSubmissionsResult extends ServiceResponse {
+  success: true;
+  result: {
+    checkId: string;
+  };
+}
+
+export type UpdateSubmissionsResponse = UpdateSubmissionsResult | ErrorResponse;
+
+/**
+ * Maps a check's generationStatus onto the coarser checkStatus
+ * that is stored on every submission linked to that check
+ */
+export function getCheckStatus(
+  generationStatus: Check["generationStatus"] | string
+): Submission["checkStatus"] {
+  if (generationStatus === "pending") {
+    return "pending";
+  }
+  if (generationStatus === "completed" || generationStatus === "unusable") {
+    return "completed";
+  }
+  return "error";
+}
+
+/**
+ * Updates the checkStatus of all submissions linked to a check, so that
+ * submissions which matched an in-flight check also reflect its outcome
+ */
+export async function updateSubmissionsStatus(
+  checkId: string,
+  checkStatus: Submission["checkStatus"],
+  checkCtx: CheckContext,
+  waitUntil?: (promise: Promise<any>) => void
+): Promise<UpdateSubmissionsResponse> {
+  const logger = checkCtx.logger.child({ function: "updateSubmissionsStatus" });
+  const env = checkCtx.env;
+
+  try {
+    if (waitUntil) {
+      // Run in background
+      waitUntil(
+        env.DATABASE_SERVICE.updateSubmissionsByCheckId(checkId, {
+          checkStatus,
+        }).catch((error) => {
+          logger.error({ error, checkId }, "Failed to update submissions");
+          throw error;
+        })
+      );
+    } else {
+      await env.DATABASE_SERVICE.updateSubmissionsByCheckId(checkId, {
+        checkStatus,
+      });
+    }
+    return {
+      success: true,
+      result: {
+        checkId,
+      },
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    logger.error({ error, checkId }, "Failed to update submissions");
+    return {
+      success: false,
+      error: {
+        message: `Error updating submissions: ${errorMessage}`,
+        code: "UPDATE_SUBMISSIONS_ERROR",
+        details: error,
+      },
+    };
+  }
+}
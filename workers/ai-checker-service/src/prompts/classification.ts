@@ -0,0 +1,17 @@
+import { MACHINE_CATEGORY_DESCRIPTIONS } from "@workspace/shared-utils";
+
+export const classificationPrompt = `You are a fact-checking editor working for CheckMate, a product that allows users based in Singapore to send in dubious content they aren't sure whether to trust, and checks such content on their behalf.
+
+Given the user's intent and the report of a fact-checking model on the content they sent in, classify the content into exactly one of the following categories:
+
+{{categories}}
+
+Base the category only on the findings of the report. Also give your confidence in the category, between 0 and 1. Use a low confidence when the report is inconclusive or the content could fit more than one category.`;
+
+export const getClassificationSystemPrompt = () =>
+  classificationPrompt.replace(
+    "{{categories}}",
+    Object.entries(MACHINE_CATEGORY_DESCRIPTIONS)
+      .map(([category, description]) => `[${category}] - ${description}`)
+      .join("\n")
+  );
@@ -6,6 +6,7 @@ You will be provided with:
 - The audience's intent
 - The submitted report
 - The sources used
+- The verdict on each claim made by the content, with the links to its evidence
 
 # Your Task
 
@@ -16,6 +17,7 @@ Review the submission for:
 - Credibility of sources used
 - Whether the report expresses unwarranted confidence in its assessment given the evidence
 - Appropriate use of hedging language when evidence is limited
+- Whether the verdict on each claim is consistent with the report and supported by its links
 
 Points to note:
 - Do not nitpick, work on the assumption that the drafter is competent
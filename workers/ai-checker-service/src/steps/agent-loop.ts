@@ -1,14 +1,15 @@
 import { Experimental_Agent as Agent, ModelMessage, stepCountIs } from "ai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
-import { createOpenAI } from "@ai-sdk/openai";
 import { getAgentSystemPrompt } from "../prompts/agent";
 import { createUrlScreenshotTool } from "../tools/url-screenshot";
 import { createScanUrlTool } from "../tools/scan-url";
 import { createReviewReportTool } from "../tools/review-report";
 import { createSearchGoogleTool } from "../tools/search-google";
 import { createLogger } from "@workspace/shared-utils";
+import { ClaimAssessment } from "@workspace/shared-types";
 import { CheckContext } from "../types";
 import { truncateBase64 } from "../utils/truncate-base64";
+import { sanitizeToolInput } from "../utils/sanitize-tool-input";
+import { withModelFallback } from "../lib/model-router";
 
 /**
  * Transforms messages to inject screenshot images as user messages
@@ -72,14 +73,24 @@ export interface AgentLoopResult {
   report: string;
   sources: string[];
   isControversial: boolean;
+  claims: ClaimAssessment[];
 }
 
 export interface AgentLoopInputs {
   startingMessages: ModelMessage[];
   intent: string;
-  maxSearches?: number;
-  maxScreenshots?: number;
-  maxSteps?: number;
+  claims: string[]; // Claims to give a verdict on, from extractClaims
+}
+
+// Lists the claims to assess after the content, so the agent researches each one
+function getClaimsMessage(claims: string[]): ModelMessage {
+  const text =
+    claims.length > 0
+      ? `The content makes the following claims. Give a verdict on each of them when submitting your report:\n${claims
+          .map((claim, i) => `${i + 1}. ${claim}`)
+          .join("\n")}`
+      : "The content makes no checkable claims, so submit your report with an empty list of claims.";
+  return { role: "user", content: text };
 }
 
 export async function runAgentLoop(
@@ -87,17 +98,16 @@ export async function runAgentLoop(
   checkCtx: CheckContext,
   logger = createLogger("agent-loop")
 ): Promise<AgentLoopResult> {
-  const {
-    startingMessages,
-    intent,
-    maxSearches = 5,
-    maxScreenshots = 5,
-    maxSteps = 50,
-  } = inputs;
-  const env = checkCtx.env;
+  const { intent, claims } = inputs;
+  const startingMessages = [
+    ...inputs.startingMessages,
+    getClaimsMessage(claims),
+  ];
+  const { maxSearches, maxScreenshots, maxUrlScans, maxSteps } =
+    checkCtx.profile;
   let searchesRemaining = maxSearches;
   let screenshotsRemaining = maxScreenshots;
-  let urlScansRemaining = 5;
+  let urlScansRemaining = maxUrlScans;
   let finalReport: AgentLoopResult | null = null;
 
   // Track messages for review tool (starts with preprocessing messages)
@@ -128,147 +138,156 @@ export async function runAgentLoop(
     "Tools created"
   );
 
-  const google = createGoogleGenerativeAI({
-    apiKey: env.GEMINI_API_KEY,
-  });
-
-  const openai = createOpenAI({
-    apiKey: env.OPENAI_API_KEY,
-  });
+  // A fallback model continues from the messages and with the tool budget the failed model left
+  const result = await withModelFallback("agent", checkCtx, (model) => {
+    const agent = new Agent({
+      model,
+      system: getAgentSystemPrompt({
+        datetime: new Date().toISOString(),
+        searchesRemaining,
+        screenshotsRemaining,
+        urlScansRemaining,
+      }),
+      tools: {
+        scan_url: scanUrlTool,
+        url_screenshot: urlScreenshotTool,
+        search_google: searchGoogleTool,
+        // url_context: google.tools.urlContext({}),
+        review_report: reviewReportTool,
+      },
+      toolChoice: "required" as const,
+      stopWhen: [
+        stepCountIs(maxSteps), // Maximum steps failsafe
+        () => finalReport !== null, // Stop when report passes review
+      ],
+      prepareStep: async ({ messages, stepNumber }) => {
+        logger.info(
+          {
+            stepNumber,
+            messageCount: messages?.length,
+          },
+          "Preparing agent step"
+        );
 
-  const agent = new Agent({
-    // model: google("gemini-2.5-flash"),
-    model: openai("gpt-5-mini"),
-    system: getAgentSystemPrompt({
-      datetime: new Date().toISOString(),
-      searchesRemaining,
-      screenshotsRemaining,
-      urlScansRemaining,
-    }),
-    tools: {
-      scan_url: scanUrlTool,
-      url_screenshot: urlScreenshotTool,
-      search_google: searchGoogleTool,
-      // url_context: google.tools.urlContext({}),
-      review_report: reviewReportTool,
-    },
-    toolChoice: "required" as const,
-    stopWhen: [
-      stepCountIs(maxSteps), // Maximum steps failsafe
-      () => finalReport !== null, // Stop when report passes review
-    ],
-    prepareStep: async ({ messages, stepNumber }) => {
-      logger.info(
-        {
-          stepNumber,
-          messageCount: messages?.length,
-        },
-        "Preparing agent step"
-      );
+        // Transform messages to inject screenshots as user messages
+        let transformedMessages = messages;
+        if (messages) {
+          transformedMessages = transformScreenshotMessages(messages);
+          currentMessages = transformedMessages;
+        }
 
-      // Transform messages to inject screenshots as user messages
-      let transformedMessages = messages;
-      if (messages) {
-        transformedMessages = transformScreenshotMessages(messages);
-        currentMessages = transformedMessages;
-      }
+        // Dynamically control which tools are available based on remaining counts
+        const activeTools: Array<
+          "scan_url" | "search_google" | "review_report" | "url_screenshot"
+        > = [];
 
-      // Dynamically control which tools are available based on remaining counts
-      const activeTools: Array<
-        "scan_url" | "search_google" | "review_report" | "url_screenshot"
-      > = [];
+        if (searchesRemaining > 0) {
+          activeTools.push("search_google");
+        }
+        if (urlScansRemaining > 0) {
+          activeTools.push("scan_url");
+        }
+        if (screenshotsRemaining > 0) {
+          activeTools.push("url_screenshot");
+        }
+        // review_report is always available
+        activeTools.push("review_report");
 
-      if (searchesRemaining > 0) {
-        activeTools.push("search_google");
-      }
-      if (urlScansRemaining > 0) {
-        activeTools.push("scan_url");
-      }
-      if (screenshotsRemaining > 0) {
-        activeTools.push("url_screenshot");
-      }
-      // review_report is always available
-      activeTools.push("review_report");
+        return {
+          activeTools,
+          messages: transformedMessages,
+        };
+      },
+      onStepFinish: ({ toolCalls, toolResults, text }) => {
+        // Log full toolCalls to see what properties are available
+        logger.info(
+          {
+            text,
+            toolCalls: toolCalls?.map((tc) => ({
+              toolName: tc.toolName,
+              input: tc.input,
+            })),
+            searchesRemaining,
+            urlScansRemaining,
+            screenshotsRemaining,
+          },
+          `Agent step completed`
+        );
 
-      return {
-        activeTools,
-        messages: transformedMessages,
-      };
-    },
-    onStepFinish: ({ toolCalls, toolResults, text }) => {
-      // Log full toolCalls to see what properties are available
-      logger.info(
-        {
-          text,
-          toolCalls: toolCalls?.map((tc) => ({
-            toolName: tc.toolName,
-            input: tc.input,
-          })),
-          searchesRemaining,
-          urlScansRemaining,
-          screenshotsRemaining,
-        },
-        `Agent step completed`
-      );
+        // Track tool usage and decrement counters
+        toolCalls?.forEach((toolCall, index) => {
+          checkCtx.emitProgress?.({
+            type: "tool-call",
+            toolName: toolCall.toolName,
+            input: sanitizeToolInput(toolCall.input),
+          });
 
-      // Track tool usage and decrement counters
-      toolCalls?.forEach((toolCall, index) => {
-        if (toolCall.toolName === "search_google" && searchesRemaining > 0) {
-          searchesRemaining--;
-          logger.info(
-            { searchesRemaining },
-            "Google search used, decremented counter"
-          );
-        } else if (
-          toolCall.toolName === "url_screenshot" &&
-          screenshotsRemaining > 0
-        ) {
-          screenshotsRemaining--;
-          logger.info(
-            { screenshotsRemaining },
-            "URL screenshot used, decremented counter"
-          );
-        } else if (toolCall.toolName === "scan_url" && urlScansRemaining > 0) {
-          urlScansRemaining--;
-          logger.info(
-            { urlScansRemaining },
-            "URL scan used, decremented counter"
-          );
-        } else if (toolCall.toolName === "review_report") {
-          // Extract the final report from the tool result
-          const toolResult = toolResults?.[index];
-          const result = toolResult?.output as any;
-          if (result?.passedReview) {
-            finalReport = {
-              report: result.report,
-              sources: result.sources,
-              isControversial: result.isControversial,
-            };
+          if (toolCall.toolName === "search_google" && searchesRemaining > 0) {
+            searchesRemaining--;
             logger.info(
-              { finalReport },
-              "Report passed review, ending agent loop"
+              { searchesRemaining },
+              "Google search used, decremented counter"
             );
-          } else {
+          } else if (
+            toolCall.toolName === "url_screenshot" &&
+            screenshotsRemaining > 0
+          ) {
+            screenshotsRemaining--;
             logger.info(
-              { feedback: result?.feedback },
-              "Report did not pass review, continuing"
+              { screenshotsRemaining },
+              "URL screenshot used, decremented counter"
             );
+          } else if (
+            toolCall.toolName === "scan_url" &&
+            urlScansRemaining > 0
+          ) {
+            urlScansRemaining--;
+            logger.info(
+              { urlScansRemaining },
+              "URL scan used, decremented counter"
+            );
+          } else if (toolCall.toolName === "review_report") {
+            // Extract the final report from the tool result
+            const toolResult = toolResults?.[index];
+            const result = toolResult?.output as any;
+            checkCtx.emitProgress?.({
+              type: "review",
+              passedReview: !!result?.passedReview,
+              feedback: result?.feedback ?? "",
+            });
+            if (result?.passedReview) {
+              finalReport = {
+                report: result.report,
+                sources: result.sources,
+                isControversial: result.isControversial,
+                claims: result.claims ?? [],
+              };
+              logger.info(
+                { finalReport },
+                "Report passed review, ending agent loop"
+              );
+            } else {
+              logger.info(
+                { feedback: result?.feedback },
+                "Report did not pass review, continuing"
+              );
+            }
           }
-        }
-      });
-    },
-    experimental_telemetry: {
-      isEnabled: true,
-      functionId: "agent-loop",
-      metadata: {
-        langfuseTraceId: checkCtx.trace?.id ?? "",
-        langfuseUpdateParent: false,
+        });
       },
-    },
-  });
+      experimental_telemetry: {
+        isEnabled: true,
+        functionId: "agent-loop",
+        metadata: {
+          langfuseTraceId: checkCtx.trace?.id ?? "",
+          langfuseUpdateParent: false,
+        },
+      },
+    });
 
-  const result = await agent.generate({
-    messages: startingMessages,
+    return agent.generate({
+      messages: currentMessages,
+    });
   });
 
   logger.info(truncateBase64({ result }), "Agent loop completed");
@@ -0,0 +1,66 @@
+import { generateObject } from "ai";
+// generateObject infers the result type from zod 4 schemas without hitting the type-checker limits
+import { z } from "zod/v4";
+import { MACHINE_CATEGORIES } from "@workspace/shared-utils";
+import { MachineClassification } from "@workspace/shared-types";
+import { getClassificationSystemPrompt } from "../prompts/classification";
+import { CheckContext } from "../types";
+import { withModelFallback } from "../lib/model-router";
+
+const ClassificationSchema = z.object({
+  category: z
+    .enum(MACHINE_CATEGORIES)
+    .describe("The category that best fits the content, given the report"),
+  confidence: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("How confident you are in the category, between 0 and 1"),
+});
+
+export interface ClassifyVerdictInputs {
+  intent: string;
+  report: string;
+}
+
+/**
+ * Classifies the verdict of the agent loop's report into a machine category,
+ * so the verdict doesn't have to be read from the community note
+ */
+export async function classifyVerdict(
+  options: ClassifyVerdictInputs,
+  checkCtx: CheckContext
+): Promise<MachineClassification> {
+  const childLogger = checkCtx.logger.child({ step: "classify-verdict" });
+  const { intent, report } = options;
+
+  const { object } = await withModelFallback(
+    "classify",
+    checkCtx,
+    async (model) =>
+      generateObject({
+        model,
+        system: getClassificationSystemPrompt(),
+        messages: [
+          {
+            role: "user",
+            content: `The user's intent is to check the following: ${intent}\n\nThe report is as follows: ${report}`,
+          },
+        ],
+        schema: ClassificationSchema,
+        maxRetries: 2,
+        experimental_telemetry: {
+          isEnabled: true,
+          functionId: "classify-verdict",
+          metadata: {
+            langfuseTraceId: checkCtx.trace?.id ?? "",
+            langfuseUpdateParent: false,
+          },
+        },
+      })
+  );
+
+  const classification: MachineClassification = object;
+  childLogger.info(classification, "Verdict classified");
+  return classification;
+}
@@ -22,6 +22,20 @@ export interface DownloadImageResponse {
 
 export type DownloadImageResult = DownloadImageResponse | ErrorResponse;
 
+/**
+ * Gets the key an image is cached under in R2: the filename for images
+ * already in the checkmate-images bucket, otherwise a hash of the URL
+ */
+export async function getImageR2Key(imageUrl: string): Promise<string> {
+  if (
+    imageUrl.startsWith("https://checkmate-images") &&
+    imageUrl.includes("r2.cloudflarestorage.com")
+  ) {
+    return new URL(imageUrl).pathname.split("/").pop() || "";
+  }
+  return hashUrl(imageUrl);
+}
+
 /**
  * Downloads an image from a URL and stores it in R2 if not already cached
  * @param options - imageUrl to download
@@ -37,39 +51,8 @@ export async function downloadImage(
   const { imageUrl, id } = options;
   const env = checkCtx.env;
   try {
-    let r2Key: string;
-
-    // Check if URL is from cloudflare - extract filename
-    if (
-      imageUrl.startsWith("https://checkmate-images") &&
-      imageUrl.includes("r2.cloudflarestorage.com")
-    ) {
-      const url = new URL(imageUrl);
-      const filename = url.pathname.split("/").pop() || "";
-      //check if filename exists in R2
-      const r2Object = await env.CHECKMATE_IMAGES_BUCKET.get(filename);
-      if (r2Object !== null) {
-        childLogger.info({ filename }, "Image found in R2 cache");
-        // Convert to base64 and return immediately
-        const arrayBuffer = await r2Object.arrayBuffer();
-        const base64 = arrayBufferToBase64(arrayBuffer);
-        return {
-          success: true,
-          result: {
-            imageUrl,
-            arrayBuffer,
-            base64,
-          },
-        };
-      } else {
-        r2Key = filename;
-      }
-    } else {
-      // Hash the URL to create a unique R2 key
-      const urlHash = await hashUrl(imageUrl);
-      r2Key = urlHash;
-      childLogger.info({ urlHash }, "Using hash as R2 key");
-    }
+    const r2Key = await getImageR2Key(imageUrl);
+    childLogger.info({ r2Key }, "Using R2 key");
 
     // Check if already cached in R2
     let r2Object = await env.CHECKMATE_IMAGES_BUCKET.get(r2Key);
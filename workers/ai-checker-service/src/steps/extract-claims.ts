@@ -0,0 +1,60 @@
+import { generateObject, ModelMessage } from "ai";
+import { z } from "zod/v4";
+import { getClaimExtractionSystemPrompt } from "../prompts/claim-extraction";
+import { CheckContext } from "../types";
+import { withModelFallback } from "../lib/model-router";
+
+// Every claim is researched within the same tool budget, so only the main ones are kept
+const MAX_CLAIMS = 5;
+
+export interface ExtractClaimsInputs {
+  startingMessages: ModelMessage[];
+  intent: string;
+}
+
+/**
+ * Splits the content of a check into the atomic claims that can be checked,
+ * so that the agent loop can give each its own verdict
+ */
+export async function extractClaims(
+  options: ExtractClaimsInputs,
+  checkCtx: CheckContext
+): Promise<string[]> {
+  const childLogger = checkCtx.logger.child({ step: "extract-claims" });
+  const { startingMessages, intent } = options;
+
+  const { object } = await withModelFallback(
+    "extractClaims",
+    checkCtx,
+    async (model) =>
+      generateObject({
+        model,
+        system: getClaimExtractionSystemPrompt(MAX_CLAIMS),
+        messages: [
+          ...startingMessages,
+          {
+            role: "user",
+            content: `The user's intent is to check the following: ${intent}`,
+          },
+        ],
+        schema: z.object({
+          claims: z
+            .array(z.string())
+            .describe("The atomic claims that can be checked"),
+        }),
+        maxRetries: 2,
+        experimental_telemetry: {
+          isEnabled: true,
+          functionId: "extract-claims",
+          metadata: {
+            langfuseTraceId: checkCtx.trace?.id ?? "",
+            langfuseUpdateParent: false,
+          },
+        },
+      })
+  );
+
+  const claims = object.claims.slice(0, MAX_CLAIMS);
+  childLogger.info({ claims }, "Claims extracted");
+  return claims;
+}
@@ -1,5 +1,4 @@
 import { generateObject } from "ai";
-import { createGoogleGenerativeAI, google } from "@ai-sdk/google";
 import { z } from "zod";
 import urlRegexSafe from "url-regex-safe";
 import normalizeUrl from "normalize-url";
@@ -7,6 +6,7 @@ import { AgentRequest } from "@workspace/shared-types";
 import { getUrlExtractionSystemPrompt } from "../prompts/url-extraction";
 import { createLogger } from "@workspace/shared-utils";
 import { CheckContext } from "../types";
+import { withModelFallback } from "../lib/model-router";
 
 const logger = createLogger("extract-urls");
 
@@ -34,40 +34,40 @@ function extractUrlsFromText(text: string): string[] {
 }
 
 /**
- * Extracts URLs from image using Gemini vision OCR
+ * Extracts URLs from image using vision OCR
  */
 async function extractUrlsFromImage(
   imageUrl: string,
   imageBase64: string | undefined,
-  env: Env
+  checkCtx: CheckContext
 ): Promise<string[]> {
-  const google = createGoogleGenerativeAI({
-    apiKey: env.GEMINI_API_KEY,
-  });
-  const model = google("gemini-2.5-flash");
-
-  const { object } = await (generateObject as any)({
-    model: model,
-    system: getUrlExtractionSystemPrompt(),
-    messages: [
-      {
-        role: "user",
-        content: [
+  const { object } = await withModelFallback(
+    "extractUrls",
+    checkCtx,
+    async (model) =>
+      (generateObject as any)({
+        model: model,
+        system: getUrlExtractionSystemPrompt(),
+        messages: [
           {
-            type: "image",
-            image: imageBase64 ?? imageUrl,
+            role: "user",
+            content: [
+              {
+                type: "image",
+                image: imageBase64 ?? imageUrl,
+              },
+            ],
           },
         ],
-      },
-    ],
-    schema: z.object({
-      urls: z
-        .array(z.string())
-        .describe(
-          "Array of URLs extracted from the image. Each URL should be a valid URL string."
-        ),
-    }),
-  });
+        schema: z.object({
+          urls: z
+            .array(z.string())
+            .describe(
+              "Array of URLs extracted from the image. Each URL should be a valid URL string."
+            ),
+        }),
+      })
+  );
 
   const urls = (object as { urls: string[] }).urls || [];
 
@@ -97,7 +97,6 @@ export async function extractUrls(
   checkCtx: CheckContext
 ): Promise<ExtractUrlsResult> {
   const childLogger = checkCtx.logger.child({ step: "extract-urls" });
-  const env = checkCtx.env;
   try {
     let urls: string[] = [];
 
@@ -119,7 +118,7 @@ export async function extractUrls(
       const imageUrls = await extractUrlsFromImage(
         options.imageUrl,
         options.imageBase64,
-        env
+        checkCtx
       );
       urls = [...urls, ...imageUrls];
     }
@@ -1,5 +1,4 @@
 import { generateObject } from "ai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { z } from "zod";
 import { getPreprocessingSystemPrompt } from "../prompts/preprocessing";
 import {
@@ -10,6 +9,7 @@ import {
 } from "@workspace/shared-types";
 import { createLogger } from "@workspace/shared-utils";
 import { CheckContext } from "../types";
+import { withModelFallback } from "../lib/model-router";
 
 export type AgentRequestWithUrls = AgentRequest & {
   extractedUrls?: string[];
@@ -38,10 +38,6 @@ export async function preprocessInputs(
   const env = checkCtx.env;
   const trace = checkCtx.trace;
   try {
-    const google = createGoogleGenerativeAI({
-      apiKey: env.GEMINI_API_KEY,
-    });
-    const model = google("gemini-2.5-pro");
     const { text, imageUrl, imageBase64, caption, extractedUrls } = options;
 
     if (!text && !imageBase64 && !imageUrl) {
@@ -98,6 +94,9 @@ export async function preprocessInputs(
       // Add screenshots to user content
       screenshots.forEach((screenshot: ScreenshotResult, index: number) => {
         if (screenshot.success) {
+          if (screenshot.result.r2Key) {
+            checkCtx.screenshotKeys.add(screenshot.result.r2Key);
+          }
           userContent.push({
             type: "text",
             text: `Screenshot of ${extractedUrls[index]} below:`,
@@ -115,51 +114,56 @@ export async function preprocessInputs(
       });
     }
 
-    const { object } = await (generateObject as any)({
-      model: model,
-      system: getPreprocessingSystemPrompt(),
-      messages: [
-        {
-          role: "user",
-          content: userContent,
-        },
-      ],
-      schema: z.object({
-        intent: z
-          .string()
-          .describe(
-            "What the user's intent is, e.g. to check whether this is a scam, to check if this is really from the government, to check the facts in this article, etc."
-          ),
-        canBeAssessed: z
-          .boolean()
-          .describe(
-            "Whether you are confident that the information currently available is sufficient for the next agent, given google search and a malicious URL scanner, to assess this message."
-          ),
-        isAccessBlocked: z
-          .boolean()
-          .describe(
-            "True if critical information needed to assess this submission is behind a blocked webpage. Otherwise false."
-          ),
-        isVideo: z
-          .boolean()
-          .describe(
-            "True if there is a video that needs to be watched in order to properly assess this submission."
-          ),
-        title: z
-          .string()
-          .describe(
-            "A title, less than 8 words, describing the check to be done. E.g. 'Article on budget measures at mofbudget.life' or 'Claim that strawberry quick is circulating'. Do not include names, addresses, or phone numbers."
-          ),
-      }),
-      experimental_telemetry: {
-        isEnabled: true,
-        functionId: "preprocess-inputs-generation",
-        metadata: {
-          langfuseTraceId: trace?.id,
-          langfuseUpdateParent: false,
-        },
-      },
-    });
+    const { object } = await withModelFallback(
+      "preprocess",
+      checkCtx,
+      async (model) =>
+        (generateObject as any)({
+          model: model,
+          system: getPreprocessingSystemPrompt(),
+          messages: [
+            {
+              role: "user",
+              content: userContent,
+            },
+          ],
+          schema: z.object({
+            intent: z
+              .string()
+              .describe(
+                "What the user's intent is, e.g. to check whether this is a scam, to check if this is really from the government, to check the facts in this article, etc."
+              ),
+            canBeAssessed: z
+              .boolean()
+              .describe(
+                "Whether you are confident that the information currently available is sufficient for the next agent, given google search and a malicious URL scanner, to assess this message."
+              ),
+            isAccessBlocked: z
+              .boolean()
+              .describe(
+                "True if critical information needed to assess this submission is behind a blocked webpage. Otherwise false."
+              ),
+            isVideo: z
+              .boolean()
+              .describe(
+                "True if there is a video that needs to be watched in order to properly assess this submission."
+              ),
+            title: z
+              .string()
+              .describe(
+                "A title, less than 8 words, describing the check to be done. E.g. 'Article on budget measures at mofbudget.life' or 'Claim that strawberry quick is circulating'. Do not include names, addresses, or phone numbers."
+              ),
+          }),
+          experimental_telemetry: {
+            isEnabled: true,
+            functionId: "preprocess-inputs-generation",
+            metadata: {
+              langfuseTraceId: trace?.id,
+              langfuseUpdateParent: false,
+            },
+          },
+        })
+    );
 
     const canBeAssessed = object.canBeAssessed;
     const isAccessBlocked = object.isAccessBlocked && !canBeAssessed;
@@ -195,6 +199,7 @@ export async function preprocessInputs(
       error instanceof Error ? error.message : "Unknown error occurred";
     childLogger.error({ error, errorMessage }, "Error in preprocessInputs");
 
-    throw new Error(`Error in preprocessInputs: ${errorMessage}`);
+    // Rethrown as is, so that step retries can tell whether the error is transient
+    throw error;
   }
 }
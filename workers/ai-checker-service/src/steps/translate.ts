@@ -1,52 +1,79 @@
 import { generateObject } from "ai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { z } from "zod";
 import { getTranslationSystemPrompt } from "../prompts/translation";
 import { createLogger } from "@workspace/shared-utils";
+import { TranslatedLanguage } from "@workspace/shared-types";
 import { CheckContext } from "../types";
+import { withModelFallback } from "../lib/model-router";
 
 export interface TranslateInputs {
   text: string;
   targetLanguage?: string;
 }
 
-export async function translateText(
+// The target language passed to translateText for each translated language
+export const TRANSLATION_TARGET_LANGUAGES: Record<TranslatedLanguage, string> =
+  {
+    cn: "Chinese",
+    ms: "Bahasa Melayu",
+    id: "Bahasa Indonesia",
+    ta: "Tamil",
+  };
+
+/**
+ * Translates text, throwing if the translation fails
+ */
+export async function requestTranslation(
   options: TranslateInputs,
   checkCtx: CheckContext
 ): Promise<string> {
   const { text, targetLanguage = "Chinese" } = options;
-  const env = checkCtx.env;
 
-  try {
-    const google = createGoogleGenerativeAI({
-      apiKey: env.GEMINI_API_KEY,
-    });
-    const { object } = await (generateObject as any)({
-      model: google("gemini-2.5-flash"),
-      system: getTranslationSystemPrompt(targetLanguage),
-      messages: [
-        {
-          role: "user",
-          content: text,
+  const { object } = await withModelFallback(
+    "translate",
+    checkCtx,
+    async (model) =>
+      (generateObject as any)({
+        model,
+        system: getTranslationSystemPrompt(targetLanguage),
+        messages: [
+          {
+            role: "user",
+            content: text,
+          },
+        ],
+        schema: z.object({
+          translation: z
+            .string()
+            .describe("Translated text in the target language"),
+        }),
+        maxRetries: 2,
+        experimental_telemetry: {
+          isEnabled: true,
+          functionId: "translate-text",
+          metadata: {
+            langfuseTraceId: checkCtx.trace?.id ?? "",
+            langfuseUpdateParent: false,
+          },
         },
-      ],
-      schema: z.object({
-        translation: z
-          .string()
-          .describe("Translated text in the target language"),
-      }),
-      maxRetries: 2,
-      experimental_telemetry: {
-        isEnabled: true,
-        functionId: "translate-text",
-        metadata: {
-          langfuseTraceId: checkCtx.trace?.id ?? "",
-          langfuseUpdateParent: false,
-        },
-      },
-    });
+      })
+  );
+
+  return object.translation as string;
+}
 
-    return object.translation as string;
+/**
+ * Translates text, returning an error message in the target language if the
+ * translation fails
+ */
+export async function translateText(
+  options: TranslateInputs,
+  checkCtx: CheckContext
+): Promise<string> {
+  const { targetLanguage = "Chinese" } = options;
+
+  try {
+    return await requestTranslation(options, checkCtx);
   } catch (error) {
     checkCtx.logger.error({ error }, "Error during translation");
 
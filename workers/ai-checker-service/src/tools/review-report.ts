@@ -5,7 +5,14 @@ import {
   createGoogleGenerativeAI,
   GoogleGenerativeAIProviderMetadata,
 } from "@ai-sdk/google";
+import {
+  CLAIM_VERDICT_DESCRIPTIONS,
+  CLAIM_VERDICTS,
+  getProviderFromModel,
+} from "@workspace/shared-utils";
+import { ClaimAssessment } from "@workspace/shared-types";
 import { getReviewerSystemPrompt, reviewerPrompt } from "../prompts/reviewer";
+import { withModelFallback } from "../lib/model-router";
 
 interface ReviewReportToolOptions {
   checkCtx: CheckContext;
@@ -36,15 +43,32 @@ export const createReviewReportTool = ({
         .describe(
           "True if the content contains political or religious viewpoints that are grounded in opinions rather than provable facts, and are likely to be divisive or polarizing."
         ),
+      claims: z
+        .array(
+          z.object({
+            claim: z.string().describe("The claim, as it was given to you"),
+            verdict: z.enum(CLAIM_VERDICTS).describe(
+              Object.entries(CLAIM_VERDICT_DESCRIPTIONS)
+                .map(([verdict, description]) => `${verdict}: ${description}`)
+                .join("; ")
+            ),
+            links: z
+              .array(z.string().url())
+              .describe("The URLs of the evidence for the verdict"),
+          })
+        )
+        .describe("A verdict on each of the claims made by the content"),
     }),
     execute: async ({
       report,
       sources,
       isControversial,
+      claims,
     }: {
       report: string;
       sources: string[];
       isControversial: boolean;
+      claims: ClaimAssessment[];
     }) => {
       const childLogger = checkCtx.logger.child({ tool: "review-report" });
 
@@ -53,7 +77,7 @@ export const createReviewReportTool = ({
         apiKey: env.GEMINI_API_KEY,
       });
       childLogger.info(
-        { report, sources, isControversial },
+        { report, sources, isControversial, claims },
         "Reviewing report"
       );
 
@@ -61,6 +85,15 @@ export const createReviewReportTool = ({
         // Format sources
         const formattedSources =
           sources.length > 0 ? "- " + sources.join("\n- ") : "<None>";
+        const formattedClaims =
+          claims.length > 0
+            ? claims
+                .map(
+                  ({ claim, verdict, links }) =>
+                    `- ${claim}: ${verdict} (${links.join(", ") || "no links"})`
+                )
+                .join("\n")
+            : "<None>";
 
         // Get intent and messages
         const intent = getIntent();
@@ -68,32 +101,42 @@ export const createReviewReportTool = ({
         checkCtx.logger.info("Calling LLM to review report");
 
         // Call LLM to review the report
-        const { text, providerMetadata } = await generateText({
-          model: google("gemini-2.5-pro"),
-          system:
-            getReviewerSystemPrompt() +
-            '\n\nAfter examining all sources, provide your review in this exact JSON format:\n{"feedback": "your feedback here", "passedReview": true or false}',
-          prompt: `# User's Intent
+        const { text, providerMetadata } = await withModelFallback(
+          "reviewer",
+          checkCtx,
+          (model, modelName) =>
+            generateText({
+              model,
+              system:
+                getReviewerSystemPrompt() +
+                '\n\nAfter examining all sources, provide your review in this exact JSON format:\n{"feedback": "your feedback here", "passedReview": true or false}',
+              prompt: `# User's Intent
 ${intent}
 
 # Submitted Report
 ${report}
 
 # Sources Used
-${formattedSources}`,
-          tools: {
-            url_context: google.tools.urlContext({}),
-          },
-          maxRetries: 2,
-          experimental_telemetry: {
-            isEnabled: true,
-            functionId: "review-report",
-            metadata: {
-              langfuseTraceId: checkCtx.trace?.id ?? "",
-              langfuseUpdateParent: false,
-            },
-          },
-        });
+${formattedSources}
+
+# Verdicts on Each Claim
+${formattedClaims}`,
+              // Only Gemini models can read the sources with the URL context tool
+              tools:
+                getProviderFromModel(modelName) === "vertex-ai"
+                  ? { url_context: google.tools.urlContext({}) }
+                  : undefined,
+              maxRetries: 2,
+              experimental_telemetry: {
+                isEnabled: true,
+                functionId: "review-report",
+                metadata: {
+                  langfuseTraceId: checkCtx.trace?.id ?? "",
+                  langfuseUpdateParent: false,
+                },
+              },
+            })
+        );
 
         childLogger.info({ reviewResponse: text }, "Report review completed");
 
@@ -123,6 +166,7 @@ ${formattedSources}`,
           report,
           sources,
           isControversial,
+          claims,
         };
       } catch (error) {
         checkCtx.logger.error({ error }, "Error reviewing report");
@@ -133,6 +177,7 @@ ${formattedSources}`,
           report,
           sources,
           isControversial,
+          claims,
         };
       }
     },
@@ -35,6 +35,9 @@ export const createScanUrlTool = (
       }
 
       const verdict = result.result;
+      if (verdict.screenshotKey) {
+        checkCtx.screenshotKeys.add(verdict.screenshotKey);
+      }
 
       childLogger.info({ verdict }, "URL scanned");
 
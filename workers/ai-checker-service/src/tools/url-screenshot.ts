@@ -44,6 +44,10 @@ export const createUrlScreenshotTool = (
         };
       }
 
+      if (result.result.r2Key) {
+        checkCtx.screenshotKeys.add(result.result.r2Key);
+      }
+
       // Decrement screenshots remaining
       if (
         context &&
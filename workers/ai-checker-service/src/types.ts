@@ -1,9 +1,34 @@
 import { Logger } from "pino";
 import { Langfuse } from "langfuse";
+import {
+  AgentRequest,
+  CheckProgressEventData,
+  PipelineProfile,
+  PipelineStep,
+} from "@workspace/shared-types";
 
 export interface CheckContext {
   env: Env;
   logger: Logger;
   trace: ReturnType<Langfuse["trace"]> | null;
   ctx: ExecutionContext;
+  // Models, tool budgets and languages of the pipeline, see PIPELINE_PROFILES
+  profile: PipelineProfile;
+  // The model that succeeded for each step, as the profile's models are tried in order
+  modelsUsed: Partial<Record<PipelineStep, string>>;
+  // Keys of the screenshots taken or reused for the check, recorded on it for erasure
+  screenshotKeys: Set<string>;
+  // Publishes live pipeline progress, set when running the pipeline for a check
+  emitProgress?: (event: CheckProgressEventData) => void;
+}
+
+// Everything needed to run the pipeline for a check that has already been created
+export interface CheckJob {
+  request: AgentRequest;
+  submissionId: string | null; // null when retrying a check
+  checkId: string;
+  notificationId: number | null;
+  timestamp: Date;
+  // Resume from the checkpoints saved on the check, instead of starting over
+  resume?: boolean;
 }
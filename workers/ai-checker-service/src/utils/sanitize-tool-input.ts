@@ -0,0 +1,32 @@
+import { truncateBase64 } from "./truncate-base64";
+
+const MAX_STRING_LENGTH = 300;
+
+/**
+ * Prepares tool call inputs for sharing outside the service, e.g. in progress events.
+ * Base64 data is removed and long strings (such as draft reports) are shortened.
+ */
+export function sanitizeToolInput(input: any): any {
+  const truncated = truncateBase64(input);
+
+  const shorten = (value: any): any => {
+    if (typeof value === "string") {
+      return value.length > MAX_STRING_LENGTH
+        ? `${value.slice(0, MAX_STRING_LENGTH)}…`
+        : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(shorten);
+    }
+    if (value && typeof value === "object") {
+      const result: any = {};
+      for (const key in value) {
+        result[key] = shorten(value[key]);
+      }
+      return result;
+    }
+    return value;
+  };
+
+  return shorten(truncated);
+}
@@ -9,6 +9,9 @@ type DatabaseServiceMethods = Record<string, DatabaseServiceMethod>;
 
 interface Env {
   CHECKER_AGENT: DurableObjectNamespace<import("./src/index").CheckerAgent>;
+  CHECK_PROGRESS: DurableObjectNamespace<
+    import("./src/durable-objects/check-progress").CheckProgress
+  >;
 
   // Service bindings
   SEARCH_SERVICE: {
@@ -34,9 +37,12 @@ interface Env {
 
   // R2 Buckets
   CHECKMATE_IMAGES_BUCKET: R2Bucket;
+  SCREENSHOT_BUCKET: R2Bucket;
 
   // Queues
   CORE_CHECK_EVENTS_QUEUE: Queue<unknown>;
+  CONSUMER_WEBHOOK_EVENTS_QUEUE: Queue<unknown>;
+  CHECK_REQUESTS_QUEUE: Queue<unknown>;
 
   // Environment variables
   LANGFUSE_PUBLIC_KEY: string;
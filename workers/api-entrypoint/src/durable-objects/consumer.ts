@@ -1,10 +1,17 @@
 import { DurableObject } from "cloudflare:workers";
 import { createLogger } from "@workspace/shared-utils";
+import { CheckLifecycleEventType } from "@workspace/shared-types";
+import {
+  MOVED_OBJECT_NAME_PREFIX,
+  getAPIKeyPrefix,
+  hashAPIKey,
+} from "../utils/consumer";
 
 export interface AddConsumerRequest {
   name: string;
   allowedAPIs: string[];
-  apiKey: string;
+  apiKeyHash: string; // Salted hash of the API key, which is never stored
+  apiKeyPrefix: string; // Non-secret start of the API key, to identify it in listings and logs
   millisecondsPerRequest?: number; // Defines the rate at which tokens are added to the bucket (controls the refill speed).
   capacity?: number; //Defines the maximum number of tokens that can be stored in the bucket at any time. This controls how many requests can be processed in bursts.
   millisecondsForUpdates?: number; // Controls how often the refill function (alarm()) runs to restore tokens.
@@ -12,9 +19,10 @@ export interface AddConsumerRequest {
 
 interface ConsumerDetailsResponse {
   name: string;
-  apiKey: string;
+  apiKeyPrefix: string;
   isActive: boolean;
   allowedAPIs: string[];
+  pipelineProfile: string | null;
   apiCounts: {
     [apiName: string]: {
       totalCalls: number;
@@ -23,10 +31,107 @@ interface ConsumerDetailsResponse {
   };
 }
 
-function getCurrentMonthYear() {
-  const currentMonth = new Date().getMonth();
-  const currentYear = new Date().getFullYear();
-  return `${currentMonth}-${currentYear}`;
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: CheckLifecycleEventType[];
+  createdAt: string;
+}
+
+// Token bucket for a single API, on top of the consumer's overall bucket
+export interface RateLimitSettings {
+  millisecondsPerRequest: number;
+  capacity: number;
+}
+
+// Hard quotas reject requests once reached, soft quotas only log
+export interface QuotaSettings {
+  monthlyLimit: number;
+  mode: "hard" | "soft";
+}
+
+export interface ConsumerLimits {
+  millisecondsPerRequest: number;
+  capacity: number;
+  millisecondsForUpdates: number;
+  rateLimits: Record<string, RateLimitSettings>;
+  quotas: Record<string, QuotaSettings>;
+}
+
+// Usage of an API on a single day, stored without date and api under `usage-<YYYY-MM-DD>-<api>`
+export interface DailyUsage {
+  date: string;
+  api: string;
+  calls: number;
+  clientErrors: number;
+  serverErrors: number;
+  latency: Record<string, number>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  reason: "rate-limit" | "quota" | "too-large" | null; // too-large when more units are requested than a bucket holds
+  retryAfterMilliseconds: number;
+  rateLimit: {
+    limit: number;
+    remaining: number;
+    resetSeconds: number;
+  };
+  quota: {
+    limit: number;
+    remaining: number;
+    mode: QuotaSettings["mode"];
+  } | null;
+}
+
+// The first response to a request id, kept so retries can be answered with it
+export interface IdempotencyRecord {
+  bodyHash: string;
+  createdAt: number;
+  claimedAt?: number; // When the request id was last claimed, defaults to createdAt
+  response: { status: number; body: string } | null; // null while in flight
+}
+
+export type IdempotencyClaim =
+  | { outcome: "claimed" | "conflict" | "in-flight" }
+  | {
+      outcome: "completed";
+      response: { status: number; body: string };
+    };
+
+const MAX_WEBHOOKS = 10;
+
+// How long request ids are remembered for idempotent submissions
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000; // 1 day
+const IDEMPOTENCY_PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+// A claim whose request never completed or released it, e.g. as it was cancelled, can be taken again after this
+const IDEMPOTENCY_LEASE_MS = 5 * 60 * 1000; // 5 minutes
+// Storage values are limited to 128 KiB, so larger responses are not kept
+const MAX_IDEMPOTENT_RESPONSE_LENGTH = 100 * 1024;
+
+// KV expiration TTLs must be at least 60 seconds
+const MIN_KV_TTL_SECONDS = 60;
+// Storage puts take at most 128 entries at a time
+const MAX_STORAGE_PUT_ENTRIES = 128;
+
+// Upper bounds of the latency buckets recorded for each request
+export const LATENCY_BUCKETS: [label: string, maxMilliseconds: number][] = [
+  ["lt100ms", 100],
+  ["lt500ms", 500],
+  ["lt1s", 1000],
+  ["lt5s", 5000],
+  ["lt30s", 30000],
+  ["lt120s", 120000],
+  ["gte120s", Infinity],
+];
+
+// ISO dates sort naturally, e.g. 2025-03 and 2025-03-14
+function getCurrentMonth() {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function getCurrentDate() {
+  return new Date().toISOString().slice(0, 10);
 }
 
 export class Consumer extends DurableObject<Env> {
@@ -35,6 +140,10 @@ export class Consumer extends DurableObject<Env> {
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
     this.initalizeTokens();
+    ctx.blockConcurrencyWhile(async () => {
+      await this.migrateLegacyAPIKeys();
+      await this.migrateLegacyMonthKeys();
+    });
   }
 
   // Static method to generate a secure API key
@@ -55,7 +164,139 @@ export class Consumer extends DurableObject<Env> {
     this.tokens = (await this.ctx.storage.get("tokens")) || 0;
   }
 
+  /**
+   * Consumers created before API keys were hashed stored them in plaintext.
+   * Replaces them with their hashes. Such consumers are also named after their
+   * original key, until moved by moveToOpaqueName.
+   */
+  private async migrateLegacyAPIKeys() {
+    const apiKey = await this.ctx.storage.get<string>("apiKey");
+    if (!apiKey) {
+      return;
+    }
+    await this.ctx.storage.put(
+      "apiKeyHash",
+      await hashAPIKey(this.env, apiKey)
+    );
+    await this.ctx.storage.put("apiKeyPrefix", getAPIKeyPrefix(apiKey));
+
+    const previousApiKey = await this.ctx.storage.get<string>("previousApiKey");
+    const previousApiKeyExpiresAt = await this.ctx.storage.get<number>(
+      "previousApiKeyExpiresAt"
+    );
+    if (previousApiKey && (previousApiKeyExpiresAt ?? 0) > Date.now()) {
+      await this.ctx.storage.put(
+        "previousApiKeyHash",
+        await hashAPIKey(this.env, previousApiKey)
+      );
+    }
+    await this.ctx.storage.delete(["apiKey", "previousApiKey"]);
+    this.logger.info("Migrated plaintext API keys to hashes");
+  }
+
+  /**
+   * Moves a consumer named after its plaintext API key to a Durable Object
+   * with an opaque name, and points its KV entries there. This one is left
+   * empty apart from the new name, which is returned to later callers.
+   * Returns null if there is no consumer to move.
+   */
+  async moveToOpaqueName(): Promise<string | null> {
+    let objectName: string | null = null;
+    await this.ctx.blockConcurrencyWhile(async () => {
+      const movedTo = await this.ctx.storage.get<string>("movedTo");
+      const name = await this.ctx.storage.get<string>("name");
+      if (movedTo || !name) {
+        objectName = movedTo ?? null;
+        return;
+      }
+      objectName = `${MOVED_OBJECT_NAME_PREFIX}${crypto.randomUUID()}`;
+      const entries = await this.ctx.storage.list();
+      entries.set("objectName", objectName);
+      const stub = this.env.CONSUMER.get(
+        this.env.CONSUMER.idFromName(objectName)
+      );
+      await stub.importStorage(entries);
+
+      const apiKeyHash = entries.get("apiKeyHash") as string;
+      await this.env.CONSUMER_KV.put(`apiKey:${apiKeyHash}`, objectName);
+      const previousApiKeyHash = entries.get("previousApiKeyHash") as
+        | string
+        | undefined;
+      const secondsLeft = Math.ceil(
+        (((entries.get("previousApiKeyExpiresAt") as number | undefined) ?? 0) -
+          Date.now()) /
+          1000
+      );
+      if (previousApiKeyHash && secondsLeft > 0) {
+        await this.env.CONSUMER_KV.put(
+          `apiKey:${previousApiKeyHash}`,
+          objectName,
+          { expirationTtl: Math.max(secondsLeft, MIN_KV_TTL_SECONDS) }
+        );
+      }
+      // Replaces the plaintext key the name used to map to
+      await this.env.CONSUMER_KV.put(`consumer:${name}`, objectName);
+
+      await this.ctx.storage.deleteAlarm();
+      await this.ctx.storage.deleteAll();
+      await this.ctx.storage.put("movedTo", objectName);
+      this.tokens = 0;
+      this.logger.info({ name }, "Moved consumer to an opaque object name");
+    });
+    return objectName;
+  }
+
+  // Receives the storage of a consumer moved by moveToOpaqueName
+  async importStorage(entries: Map<string, unknown>) {
+    const keys = [...entries.keys()];
+    for (let i = 0; i < keys.length; i += MAX_STORAGE_PUT_ENTRIES) {
+      const batch: Record<string, unknown> = {};
+      for (const key of keys.slice(i, i + MAX_STORAGE_PUT_ENTRIES)) {
+        batch[key] = entries.get(key);
+      }
+      await this.ctx.storage.put(batch);
+    }
+    await this.initalizeTokens();
+    await this.checkAndSetAlarm();
+  }
+
+  /**
+   * Monthly counts used to be stored under `totalCalls-<zero-based month>-<year>-<api>`.
+   * Moves them to `totalCalls-<YYYY-MM>-<api>`.
+   */
+  private async migrateLegacyMonthKeys() {
+    if (await this.ctx.storage.get("monthKeysMigrated")) {
+      return;
+    }
+    const counts = await this.ctx.storage.list<number>({
+      prefix: "totalCalls-",
+    });
+    for (const [key, count] of counts) {
+      const match = key.match(/^totalCalls-(\d{1,2})-(\d{4})-(.+)$/);
+      if (!match) {
+        continue;
+      }
+      const [, zeroBasedMonth, year, api] = match;
+      const month = `${year}-${(Number(zeroBasedMonth) + 1)
+        .toString()
+        .padStart(2, "0")}`;
+      await this.ctx.storage.put(`totalCalls-${month}-${api}`, count);
+      await this.ctx.storage.delete(key);
+    }
+    await this.ctx.storage.put("monthKeysMigrated", true);
+  }
+
   async deleteConsumer() {
+    // Remove the mappings of this consumer's keys to this Durable Object
+    const apiKeyHash = await this.ctx.storage.get<string>("apiKeyHash");
+    const previousApiKeyHash = await this.ctx.storage.get<string>(
+      "previousApiKeyHash"
+    );
+    for (const keyHash of [apiKeyHash, previousApiKeyHash]) {
+      if (keyHash) {
+        await this.env.CONSUMER_KV.delete(`apiKey:${keyHash}`);
+      }
+    }
     await this.ctx.storage.deleteAll();
   }
 
@@ -75,14 +316,20 @@ export class Consumer extends DurableObject<Env> {
         throw new Error("Consumer already exists");
       }
 
-      // Store consumer name in KV for reference
+      // The Durable Object is addressed by the hash of the first API key, even after rotation
+      const objectName = request.apiKeyHash;
+
+      // Store consumer name and key hash in KV for reference
+      await this.env.CONSUMER_KV.put(`consumer:${request.name}`, objectName);
       await this.env.CONSUMER_KV.put(
-        `consumer:${request.name}`,
-        request.apiKey
+        `apiKey:${request.apiKeyHash}`,
+        objectName
       );
       await this.ctx.storage.put("isActive", true);
       await this.ctx.storage.put("name", request.name);
-      await this.ctx.storage.put("apiKey", request.apiKey);
+      await this.ctx.storage.put("apiKeyHash", request.apiKeyHash);
+      await this.ctx.storage.put("apiKeyPrefix", request.apiKeyPrefix);
+      await this.ctx.storage.put("objectName", objectName);
       await this.ctx.storage.put("allowedAPIs", request.allowedAPIs);
       await this.ctx.storage.put(
         "millisecondsPerRequest",
@@ -102,9 +349,8 @@ export class Consumer extends DurableObject<Env> {
       // Set initial alarm
       await this.checkAndSetAlarm();
       await this.ctx.storage.put("totalCalls", 0);
-      //create a counter for the specific month
-      const currentMonthYear = getCurrentMonthYear();
-      await this.ctx.storage.put(currentMonthYear, 0);
+      // New consumers have no legacy month keys
+      await this.ctx.storage.put("monthKeysMigrated", true);
 
       // Return the API key, which is the same as the Durable Object ID
       return {
@@ -134,29 +380,302 @@ export class Consumer extends DurableObject<Env> {
     return true;
   }
 
-  async checkAllowedAPI(api: string): Promise<boolean> {
+  // Checks the hash of the current API key, or the previous one while it is within its grace period
+  async isValidAPIKey(apiKeyHash: string): Promise<boolean> {
+    const currentApiKeyHash = await this.ctx.storage.get<string>("apiKeyHash");
+    if (currentApiKeyHash === apiKeyHash) {
+      return true;
+    }
+    const previousApiKeyHash = await this.ctx.storage.get<string>(
+      "previousApiKeyHash"
+    );
+    const previousApiKeyExpiresAt = await this.ctx.storage.get<number>(
+      "previousApiKeyExpiresAt"
+    );
+    return (
+      previousApiKeyHash === apiKeyHash &&
+      !!previousApiKeyExpiresAt &&
+      Date.now() < previousApiKeyExpiresAt
+    );
+  }
+
+  /**
+   * Issues a new API key. The current key stays valid for the grace period, and
+   * usage counts, allowed APIs and rate limits carry over as the Durable Object is unchanged.
+   */
+  async rotateAPIKey(gracePeriodSeconds: number) {
+    try {
+      const exists = await this.checkConsumerExists();
+      if (!exists) {
+        throw new Error("Consumer does not exist");
+      }
+      if (gracePeriodSeconds < 0) {
+        throw new Error("Grace period cannot be negative");
+      }
+
+      const name = (await this.ctx.storage.get("name")) as string;
+      const currentApiKeyHash = (await this.ctx.storage.get(
+        "apiKeyHash"
+      )) as string;
+      const earlierApiKeyHash = await this.ctx.storage.get<string>(
+        "previousApiKeyHash"
+      );
+      const objectName = (await this.ctx.storage.get("objectName")) as string;
+
+      const newApiKey = Consumer.generateAPIKey();
+      const newApiKeyHash = await hashAPIKey(this.env, newApiKey);
+      const previousApiKeyExpiresAt = Date.now() + gracePeriodSeconds * 1000;
+
+      await this.ctx.storage.put("apiKeyHash", newApiKeyHash);
+      await this.ctx.storage.put("apiKeyPrefix", getAPIKeyPrefix(newApiKey));
+
+      // Only one previous key is kept, so rotating again revokes the earlier key immediately
+      if (earlierApiKeyHash) {
+        await this.env.CONSUMER_KV.delete(`apiKey:${earlierApiKeyHash}`);
+      }
+      await this.env.CONSUMER_KV.put(`apiKey:${newApiKeyHash}`, objectName);
+      if (gracePeriodSeconds > 0) {
+        await this.ctx.storage.put("previousApiKeyHash", currentApiKeyHash);
+        await this.ctx.storage.put(
+          "previousApiKeyExpiresAt",
+          previousApiKeyExpiresAt
+        );
+        await this.env.CONSUMER_KV.put(
+          `apiKey:${currentApiKeyHash}`,
+          objectName,
+          {
+            expirationTtl: Math.max(gracePeriodSeconds, MIN_KV_TTL_SECONDS),
+          }
+        );
+      } else {
+        await this.ctx.storage.delete("previousApiKeyHash");
+        await this.ctx.storage.delete("previousApiKeyExpiresAt");
+        await this.env.CONSUMER_KV.delete(`apiKey:${currentApiKeyHash}`);
+      }
+
+      this.logger.info({ name, gracePeriodSeconds }, "API key rotated");
+
+      return {
+        success: true,
+        apiKey: newApiKey,
+        previousApiKeyExpiresAt:
+          gracePeriodSeconds > 0
+            ? new Date(previousApiKeyExpiresAt).toISOString()
+            : null,
+      };
+    } catch (error) {
+      let errorMessage = "An unknown error occurred";
+      if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+      this.logger.error(errorMessage);
+      return {
+        success: false,
+        error: {
+          message: errorMessage,
+        },
+      };
+    }
+  }
+
+  // Ends the grace period of the previous API key early
+  async revokePreviousAPIKey(): Promise<boolean> {
+    const previousApiKeyHash = await this.ctx.storage.get<string>(
+      "previousApiKeyHash"
+    );
+    if (!previousApiKeyHash) {
+      return false;
+    }
+    await this.ctx.storage.delete("previousApiKeyHash");
+    await this.ctx.storage.delete("previousApiKeyExpiresAt");
+    await this.env.CONSUMER_KV.delete(`apiKey:${previousApiKeyHash}`);
+    return true;
+  }
+
+  // An API is allowed by its own name, or by the path prefix it is under, e.g. checks for checkBatch
+  async checkAllowedAPI(api: string, pathPrefix?: string): Promise<boolean> {
     const allowedAPIs = (await this.ctx.storage.get("allowedAPIs")) as string[];
-    return allowedAPIs.includes(api);
+    return (
+      allowedAPIs.includes(api) ||
+      (pathPrefix !== undefined && allowedAPIs.includes(pathPrefix))
+    );
   }
 
-  async incrementCounts(api: string) {
-    const currentMonthYear = getCurrentMonthYear();
+  // units is the number of items in the request, e.g. for batch endpoints
+  async incrementCounts(api: string, units = 1) {
+    const currentMonth = getCurrentMonth();
     let totalCalls: number =
       (await this.ctx.storage.get(`totalCalls-${api}`)) || 0;
     let totalCallsThisMonth: number =
-      (await this.ctx.storage.get(`totalCalls-${currentMonthYear}-${api}`)) ||
-      0;
-    totalCalls += 1;
-    totalCallsThisMonth += 1;
+      (await this.ctx.storage.get(`totalCalls-${currentMonth}-${api}`)) || 0;
+    totalCalls += units;
+    totalCallsThisMonth += units;
     await this.ctx.storage.put(`totalCalls-${api}`, totalCalls);
     await this.ctx.storage.put(
-      `totalCalls-${currentMonthYear}-${api}`,
+      `totalCalls-${currentMonth}-${api}`,
       totalCallsThisMonth
     );
   }
 
+  /**
+   * Records a finished request in the daily usage time-series, including
+   * rejected and failed requests, which incrementCounts does not count
+   */
+  async recordDailyUsage(
+    api: string,
+    units: number,
+    status: number,
+    latencyMilliseconds: number
+  ) {
+    const key = `usage-${getCurrentDate()}-${api}`;
+    const usage: Omit<DailyUsage, "date" | "api"> = (await this.ctx.storage.get(
+      key
+    )) || {
+      calls: 0,
+      clientErrors: 0,
+      serverErrors: 0,
+      latency: {},
+    };
+    usage.calls += units;
+    if (status >= 500) {
+      usage.serverErrors += units;
+    } else if (status >= 400) {
+      usage.clientErrors += units;
+    }
+    const [bucket] = LATENCY_BUCKETS.find(
+      ([, maxMilliseconds]) => latencyMilliseconds < maxMilliseconds
+    )!;
+    usage.latency[bucket] = (usage.latency[bucket] || 0) + 1;
+    await this.ctx.storage.put(key, usage);
+  }
+
+  // Gets the daily usage of each API between two dates (YYYY-MM-DD, inclusive), sorted by date
+  async getUsage(from: string, to: string): Promise<DailyUsage[]> {
+    const entries = await this.ctx.storage.list<
+      Omit<DailyUsage, "date" | "api">
+    >({
+      start: `usage-${from}`,
+      // "~" sorts after "-", so the end date's entries are included
+      end: `usage-${to}~`,
+    });
+    const usage: DailyUsage[] = [];
+    for (const [key, value] of entries) {
+      const date = key.slice("usage-".length, "usage-".length + 10);
+      const api = key.slice("usage-".length + 11);
+      usage.push({
+        date,
+        api,
+        calls: value.calls,
+        clientErrors: value.clientErrors,
+        serverErrors: value.serverErrors,
+        latency: Object.fromEntries(
+          LATENCY_BUCKETS.map(([bucket]) => [
+            bucket,
+            value.latency[bucket] || 0,
+          ])
+        ),
+      });
+    }
+    return usage;
+  }
+
+  /**
+   * Claims a request id for a new submission. Repeats within the idempotency
+   * window get the first request's outcome instead, or a conflict if their
+   * body differs. An in-flight claim can be taken again once its lease ends.
+   * Runs atomically, as no other request is handled in between.
+   */
+  async claimIdempotencyKey(
+    requestId: string,
+    bodyHash: string
+  ): Promise<IdempotencyClaim> {
+    await this.pruneIdempotencyRecords();
+    const key = `idempotency-${requestId}`;
+    const record = await this.ctx.storage.get<IdempotencyRecord>(key);
+    if (record && Date.now() - record.createdAt < IDEMPOTENCY_WINDOW_MS) {
+      if (record.bodyHash !== bodyHash) {
+        return { outcome: "conflict" };
+      }
+      if (record.response) {
+        return { outcome: "completed", response: record.response };
+      }
+      if (
+        Date.now() - (record.claimedAt ?? record.createdAt) <
+        IDEMPOTENCY_LEASE_MS
+      ) {
+        return { outcome: "in-flight" };
+      }
+      this.logger.warn(
+        { requestId },
+        "Taking over an expired idempotency claim"
+      );
+      await this.ctx.storage.put<IdempotencyRecord>(key, {
+        ...record,
+        claimedAt: Date.now(),
+      });
+      return { outcome: "claimed" };
+    }
+
+    const now = Date.now();
+    await this.ctx.storage.put<IdempotencyRecord>(key, {
+      bodyHash,
+      createdAt: now,
+      claimedAt: now,
+      response: null,
+    });
+    return { outcome: "claimed" };
+  }
+
+  // Keeps the response to a claimed request id, to be returned to retries
+  async completeIdempotencyKey(
+    requestId: string,
+    response: { status: number; body: string }
+  ) {
+    const key = `idempotency-${requestId}`;
+    const record = await this.ctx.storage.get<IdempotencyRecord>(key);
+    if (!record) {
+      return;
+    }
+    if (response.body.length > MAX_IDEMPOTENT_RESPONSE_LENGTH) {
+      // Retries run again, and usually attach to the check the first request created
+      await this.ctx.storage.delete(key);
+      return;
+    }
+    await this.ctx.storage.put<IdempotencyRecord>(key, {
+      ...record,
+      response,
+    });
+  }
+
+  // Forgets a claimed request id whose request failed, so it can be retried
+  async releaseIdempotencyKey(requestId: string) {
+    await this.ctx.storage.delete(`idempotency-${requestId}`);
+  }
+
+  // Deletes records older than the idempotency window, at most once per prune interval
+  private async pruneIdempotencyRecords() {
+    const prunedAt =
+      (await this.ctx.storage.get<number>("idempotencyPrunedAt")) || 0;
+    if (Date.now() - prunedAt < IDEMPOTENCY_PRUNE_INTERVAL_MS) {
+      return;
+    }
+    const records = await this.ctx.storage.list<IdempotencyRecord>({
+      prefix: "idempotency-",
+    });
+    const expiredKeys = [...records]
+      .filter(
+        ([, record]) => Date.now() - record.createdAt >= IDEMPOTENCY_WINDOW_MS
+      )
+      .map(([key]) => key);
+    // delete() takes at most 128 keys at a time
+    for (let i = 0; i < expiredKeys.length; i += 128) {
+      await this.ctx.storage.delete(expiredKeys.slice(i, i + 128));
+    }
+    await this.ctx.storage.put("idempotencyPrunedAt", Date.now());
+  }
+
   async getDetails(): Promise<ConsumerDetailsResponse> {
-    const currentMonthYear = getCurrentMonthYear();
+    const currentMonth = getCurrentMonth();
     const apiCounts: {
       [apiName: string]: { totalCalls: number; totalCallsThisMonth: number };
     } = {};
@@ -169,8 +688,7 @@ export class Consumer extends DurableObject<Env> {
       const totalCalls: number =
         (await this.ctx.storage.get(`totalCalls-${api}`)) || 0;
       const totalCallsThisMonth: number =
-        (await this.ctx.storage.get(`totalCalls-${currentMonthYear}-${api}`)) ||
-        0;
+        (await this.ctx.storage.get(`totalCalls-${currentMonth}-${api}`)) || 0;
 
       apiCounts[api] = {
         totalCalls,
@@ -180,8 +698,9 @@ export class Consumer extends DurableObject<Env> {
     return {
       name: (await this.ctx.storage.get("name")) as string,
       allowedAPIs: allowedAPIs,
-      apiKey: (await this.ctx.storage.get("apiKey")) as string,
+      apiKeyPrefix: (await this.ctx.storage.get("apiKeyPrefix")) as string,
       isActive: (await this.ctx.storage.get("isActive")) as boolean,
+      pipelineProfile: await this.getPipelineProfile(),
       apiCounts,
     };
   }
@@ -223,8 +742,337 @@ export class Consumer extends DurableObject<Env> {
     }
   }
 
+  // The pipeline profile the consumer's checks run with, or null for the default profile
+  async getPipelineProfile(): Promise<string | null> {
+    return ((await this.ctx.storage.get("pipelineProfile")) as string) ?? null;
+  }
+
+  // Sets or, when null, removes the consumer's pipeline profile
+  async setPipelineProfile(pipelineProfile: string | null) {
+    const exists = await this.checkConsumerExists();
+    if (!exists) {
+      return false;
+    }
+    if (pipelineProfile === null) {
+      await this.ctx.storage.delete("pipelineProfile");
+    } else {
+      await this.ctx.storage.put("pipelineProfile", pipelineProfile);
+    }
+    return true;
+  }
+
+  // Webhook functionality
+  async getWebhooks(): Promise<WebhookSubscription[]> {
+    return (await this.ctx.storage.get("webhooks")) || [];
+  }
+
+  // Returns the webhooks subscribed to the given event type
+  async getWebhooksForEvent(
+    eventType: CheckLifecycleEventType
+  ): Promise<WebhookSubscription[]> {
+    const webhooks = await this.getWebhooks();
+    return webhooks.filter((webhook) => webhook.events.includes(eventType));
+  }
+
+  async getWebhookSecret(): Promise<string | null> {
+    return (await this.ctx.storage.get("webhookSecret")) || null;
+  }
+
+  async rotateWebhookSecret(): Promise<string> {
+    const secret = `whsec_${Consumer.generateAPIKey(32)}`;
+    await this.ctx.storage.put("webhookSecret", secret);
+    return secret;
+  }
+
+  async addWebhook(url: string, events: CheckLifecycleEventType[]) {
+    try {
+      const exists = await this.checkConsumerExists();
+      if (!exists) {
+        throw new Error("Consumer does not exist");
+      }
+      if (new URL(url).protocol !== "https:") {
+        throw new Error("Webhook URL must use https");
+      }
+      if (!events || events.length === 0) {
+        throw new Error("At least one event type is required");
+      }
+
+      const webhooks = await this.getWebhooks();
+      if (webhooks.length >= MAX_WEBHOOKS) {
+        throw new Error(`A consumer can have at most ${MAX_WEBHOOKS} webhooks`);
+      }
+
+      const webhook: WebhookSubscription = {
+        id: crypto.randomUUID(),
+        url,
+        events: Array.from(new Set(events)),
+        createdAt: new Date().toISOString(),
+      };
+      await this.ctx.storage.put("webhooks", [...webhooks, webhook]);
+
+      // The secret is shared by all webhooks of the consumer and only returned when first created
+      let secret: string | null = null;
+      if (!(await this.getWebhookSecret())) {
+        secret = await this.rotateWebhookSecret();
+      }
+
+      return {
+        success: true,
+        webhook,
+        secret,
+      };
+    } catch (error) {
+      let errorMessage = "An unknown error occurred";
+      if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+      this.logger.error(errorMessage);
+      return {
+        success: false,
+        error: {
+          message: errorMessage,
+        },
+      };
+    }
+  }
+
+  async deleteWebhook(webhookId: string): Promise<boolean> {
+    const webhooks = await this.getWebhooks();
+    const remaining = webhooks.filter((webhook) => webhook.id !== webhookId);
+    if (remaining.length === webhooks.length) {
+      return false;
+    }
+    await this.ctx.storage.put("webhooks", remaining);
+    return true;
+  }
+
+  // Per-API rate limit and quota functionality
+  async getLimits(): Promise<ConsumerLimits> {
+    return {
+      millisecondsPerRequest: (await this.ctx.storage.get(
+        "millisecondsPerRequest"
+      )) as number,
+      capacity: (await this.ctx.storage.get("capacity")) as number,
+      millisecondsForUpdates: (await this.ctx.storage.get(
+        "millisecondsForUpdates"
+      )) as number,
+      rateLimits: (await this.ctx.storage.get("rateLimits")) || {},
+      quotas: (await this.ctx.storage.get("quotas")) || {},
+    };
+  }
+
+  // Sets or, when null, removes the rate limit and quota of an API. Undefined settings are left unchanged.
+  async setAPILimits(
+    api: string,
+    settings: {
+      rateLimit?: RateLimitSettings | null;
+      quota?: QuotaSettings | null;
+    }
+  ) {
+    try {
+      const exists = await this.checkConsumerExists();
+      if (!exists) {
+        throw new Error("Consumer does not exist");
+      }
+
+      const { rateLimits, quotas } = await this.getLimits();
+      if (settings.rateLimit === null) {
+        delete rateLimits[api];
+      } else if (settings.rateLimit) {
+        rateLimits[api] = settings.rateLimit;
+      }
+      if (settings.quota === null) {
+        delete quotas[api];
+      } else if (settings.quota) {
+        quotas[api] = settings.quota;
+      }
+      await this.ctx.storage.put("rateLimits", rateLimits);
+      await this.ctx.storage.put("quotas", quotas);
+      // Start the API's bucket afresh with its new settings
+      await this.ctx.storage.delete([`tokens-${api}`, `lastRefill-${api}`]);
+
+      return {
+        success: true,
+        limits: await this.getLimits(),
+      };
+    } catch (error) {
+      let errorMessage = "An unknown error occurred";
+      if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+      this.logger.error(errorMessage);
+      return {
+        success: false,
+        error: {
+          message: errorMessage,
+        },
+      };
+    }
+  }
+
+  /**
+   * Takes tokens from an API's own bucket. Unlike the overall bucket, which is
+   * refilled by alarm(), these are refilled based on the time since the last request.
+   */
+  private async takeAPITokens(
+    api: string,
+    settings: RateLimitSettings,
+    units: number
+  ) {
+    const now = Date.now();
+    const storedTokens = await this.ctx.storage.get<number>(`tokens-${api}`);
+    const lastRefill =
+      (await this.ctx.storage.get<number>(`lastRefill-${api}`)) ?? now;
+    let tokens = Math.min(
+      settings.capacity,
+      (storedTokens ?? settings.capacity) +
+        (now - lastRefill) / settings.millisecondsPerRequest
+    );
+
+    let millisecondsToWait = 0;
+    if (tokens >= units) {
+      tokens -= units;
+    } else {
+      millisecondsToWait = Math.ceil(
+        (units - tokens) * settings.millisecondsPerRequest
+      );
+    }
+    await this.ctx.storage.put(`tokens-${api}`, tokens);
+    await this.ctx.storage.put(`lastRefill-${api}`, now);
+
+    return {
+      millisecondsToWait,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil(
+        ((settings.capacity - tokens) * settings.millisecondsPerRequest) / 1000
+      ),
+    };
+  }
+
+  // Refunds tokens taken from an API's own bucket, when the overall bucket rejected the request
+  private async refundAPITokens(
+    api: string,
+    settings: RateLimitSettings,
+    units: number
+  ) {
+    const tokens = (await this.ctx.storage.get<number>(`tokens-${api}`)) ?? 0;
+    await this.ctx.storage.put(
+      `tokens-${api}`,
+      Math.min(settings.capacity, tokens + units)
+    );
+  }
+
+  /**
+   * Checks the monthly quota, the API's own bucket and then the overall bucket.
+   * Tokens are only taken when the request is allowed.
+   */
+  async checkRateLimit(api: string, units = 1): Promise<RateLimitResult> {
+    const limits = await this.getLimits();
+    const apiRateLimit = limits.rateLimits[api];
+
+    // Such a request would never be let through, however long it waited
+    const capacity = Math.min(
+      limits.capacity,
+      apiRateLimit?.capacity ?? Infinity
+    );
+    if (units > capacity) {
+      return {
+        allowed: false,
+        reason: "too-large",
+        retryAfterMilliseconds: 0,
+        rateLimit: {
+          limit: capacity,
+          remaining: Math.floor(this.tokens),
+          resetSeconds: 0,
+        },
+        quota: null,
+      };
+    }
+
+    let quota: RateLimitResult["quota"] = null;
+    const quotaSettings = limits.quotas[api];
+    if (quotaSettings) {
+      const usedThisMonth: number =
+        (await this.ctx.storage.get(
+          `totalCalls-${getCurrentMonth()}-${api}`
+        )) || 0;
+      quota = {
+        limit: quotaSettings.monthlyLimit,
+        remaining: Math.max(quotaSettings.monthlyLimit - usedThisMonth, 0),
+        mode: quotaSettings.mode,
+      };
+      if (usedThisMonth + units > quotaSettings.monthlyLimit) {
+        const name = await this.getName();
+        if (quotaSettings.mode === "hard") {
+          this.logger.info({ name, api }, "Monthly quota exceeded");
+          return {
+            allowed: false,
+            reason: "quota",
+            retryAfterMilliseconds: 0,
+            rateLimit: {
+              limit: limits.capacity,
+              remaining: Math.floor(this.tokens),
+              resetSeconds: 0,
+            },
+            quota,
+          };
+        }
+        this.logger.warn({ name, api }, "Soft monthly quota exceeded");
+      }
+    }
+
+    let apiBucket: Awaited<ReturnType<Consumer["takeAPITokens"]>> | null = null;
+    if (apiRateLimit) {
+      apiBucket = await this.takeAPITokens(api, apiRateLimit, units);
+      if (apiBucket.millisecondsToWait > 0) {
+        return {
+          allowed: false,
+          reason: "rate-limit",
+          retryAfterMilliseconds: apiBucket.millisecondsToWait,
+          rateLimit: {
+            limit: apiRateLimit.capacity,
+            remaining: apiBucket.remaining,
+            resetSeconds: apiBucket.resetSeconds,
+          },
+          quota,
+        };
+      }
+    }
+
+    const millisecondsToWait = await this.getMillisecondsToNextRequest(units);
+    if (millisecondsToWait > 0 && apiRateLimit) {
+      await this.refundAPITokens(api, apiRateLimit, units);
+    }
+
+    // Report whichever bucket is the tighter one
+    const overall = {
+      limit: limits.capacity,
+      remaining: this.tokens,
+      resetSeconds: Math.ceil(
+        ((limits.capacity - this.tokens) * limits.millisecondsPerRequest) / 1000
+      ),
+    };
+    const rateLimit =
+      apiBucket && apiRateLimit && apiBucket.remaining < overall.remaining
+        ? {
+            limit: apiRateLimit.capacity,
+            remaining: apiBucket.remaining,
+            resetSeconds: apiBucket.resetSeconds,
+          }
+        : overall;
+
+    return {
+      allowed: millisecondsToWait === 0,
+      reason: millisecondsToWait === 0 ? null : "rate-limit",
+      retryAfterMilliseconds: millisecondsToWait,
+      rateLimit,
+      quota,
+    };
+  }
+
   // Rate limiting functionality
-  async getMillisecondsToNextRequest() {
+  // Takes one token per unit, so a batch of items is limited like the same number of single requests
+  async getMillisecondsToNextRequest(units = 1) {
     await this.checkAndSetAlarm();
 
     // Load current tokens from storage to ensure consistency
@@ -236,10 +1084,14 @@ export class Consumer extends DurableObject<Env> {
     )) as number;
     let milliseconds_to_next_request = millisecondsPerRequest;
 
-    if (this.tokens > 0) {
-      this.tokens -= 1;
+    if (this.tokens >= units) {
+      this.tokens -= units;
       await this.ctx.storage.put("tokens", this.tokens);
       milliseconds_to_next_request = 0;
+    } else if (units > 1) {
+      // Wait until enough tokens have been refilled for the whole batch
+      milliseconds_to_next_request =
+        millisecondsPerRequest * (units - Math.max(this.tokens, 0));
     }
 
     return milliseconds_to_next_request;
@@ -1,13 +1,22 @@
-import { Bool, DateTime, OpenAPIRoute, Str } from "chanfana";
+import { Bool, DateTime, Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
 import { AgentRequest, AgentResult } from "@workspace/shared-types";
 import {
+  CheckErrorResponses,
+  CheckResultSchema,
+  ConsumerAuthErrorResponses,
   ErrorResponseSchema,
   SuccessResponseSchema,
-  CheckResultSchema,
 } from "../schemas";
+import { withIdempotency } from "../utils/idempotency";
+import { ApiRoute } from "./apiRoute";
+import {
+  errorResponse,
+  getErrorCodeForError,
+  getErrorCodeForErrorType,
+} from "../utils/errors";
 
 const logger = createLogger("agentCheck");
 
@@ -17,7 +26,9 @@ export const agentRequestSchema = {
     "x-request-id": z
       .string()
       .nullish()
-      .describe("Unique request identifier for tracing"),
+      .describe(
+        "Unique request identifier for tracing. Retries with the same ID within a day get the first response instead of a new check."
+      ),
     "x-api-key": z
       .string({
         required_error: "API key is required for authentication",
@@ -71,7 +82,10 @@ export const agentRequestSchema = {
   },
 };
 
-// Extracted handler logic that can be reused
+/**
+ * Extracted handler logic that can be reused.
+ * Requests with an x-request-id are only run once, see withIdempotency.
+ */
 export async function handleAgentRequest(
   c: Context,
   data: {
@@ -87,6 +101,27 @@ export async function handleAgentRequest(
   },
   loggerInstance = logger,
   removeReport = false
+): Promise<Response> {
+  return withIdempotency(c, data.headers?.["x-request-id"], data.body, () =>
+    runAgentRequest(c, data, loggerInstance, removeReport)
+  );
+}
+
+async function runAgentRequest(
+  c: Context,
+  data: {
+    headers?: { "x-request-id"?: string | null };
+    body: {
+      text?: string;
+      imageUrl?: string;
+      caption?: string | null;
+      model?: string;
+      findSimilar?: boolean;
+      isReport?: boolean;
+    };
+  },
+  loggerInstance = logger,
+  removeReport = false
 ): Promise<Response> {
   // Extract request ID from headers
   const requestId = data.headers?.["x-request-id"] || crypto.randomUUID();
@@ -153,8 +188,11 @@ export async function handleAgentRequest(
         { error: agentResult.error, requestId },
         "Agent check failed"
       );
-      // Return the error response from the agent service with 200 status
-      return c.json(agentResult);
+      return errorResponse(
+        c,
+        getErrorCodeForErrorType(agentResult.error.code),
+        agentResult.error.message
+      );
     }
   } catch (error: unknown) {
     const errorMessage =
@@ -171,17 +209,18 @@ export async function handleAgentRequest(
     // Return the request ID in the response headers even for errors
     c.header("x-request-id", requestId);
 
-    return c.json(
-      {
-        success: false,
-        error: "Internal server error",
-      },
-      500
+    const code = getErrorCodeForError(error);
+    return errorResponse(
+      c,
+      code,
+      code === "UPSTREAM_TIMEOUT"
+        ? "Timed out waiting for the check"
+        : "Internal server error"
     );
   }
 }
 
-export class AgentCheck extends OpenAPIRoute {
+export class AgentCheck extends ApiRoute {
   schema = {
     tags: ["Agent"],
     summary: "Get the result of the agent check",
@@ -196,6 +235,17 @@ export class AgentCheck extends OpenAPIRoute {
           },
         },
       },
+      "409": {
+        description:
+          "The x-request-id was already used with a different body, or its first request is still being processed",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      ...ConsumerAuthErrorResponses,
+      ...CheckErrorResponses,
       "500": {
         description: "Error response",
         content: {
@@ -1,23 +1,93 @@
-import { Bool, DateTime, OpenAPIRoute, Str } from "chanfana";
+import { Bool, DateTime, Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
-import { createLogger } from "@workspace/shared-utils";
-import { AgentRequest, AgentResult } from "@workspace/shared-types";
 import {
+  createLogger,
+  getPipelineOverrideError,
+  isSupportedPipelineModel,
+  PIPELINE_MODELS,
+  PIPELINE_PROFILE_NAMES,
+} from "@workspace/shared-utils";
+import {
+  AgentRequest,
+  AgentResult,
+  SubmissionAcceptedResult,
+} from "@workspace/shared-types";
+import {
+  CheckErrorResponses,
+  CheckResultSchema,
+  ConsumerAuthErrorResponses,
   ErrorResponseSchema,
+  SubmissionStatusSchema,
   SuccessResponseSchema,
-  CheckResultSchema,
 } from "../schemas";
+import { withIdempotency } from "../utils/idempotency";
+import { ApiRoute } from "./apiRoute";
+import {
+  errorResponse,
+  getErrorCodeForError,
+  getErrorCodeForErrorType,
+} from "../utils/errors";
 
 const logger = createLogger("agentCheck");
 
+// Fields of a single check request, shared with the batch endpoint
+export const agentRequestBodyFieldsV2 = z.object({
+  // For text-only requests
+  text: z.string().optional(),
+  // For image requests
+  imageUrl: z.string().optional(),
+  caption: z.string().nullable().optional(),
+  // Common properties
+  model: z
+    .string()
+    .refine(
+      isSupportedPipelineModel,
+      `Must be one of ${PIPELINE_MODELS.join(", ")}`
+    )
+    .optional()
+    .describe(
+      "The model to try first for the research step, one of the agent models of the pipeline profile, e.g. gpt-5-mini"
+    ),
+  pipelineProfile: z
+    .enum(PIPELINE_PROFILE_NAMES)
+    .optional()
+    .describe(
+      "Overrides the pipeline profile of your API key, which sets the models, tool budgets and languages of the check. Only the profiles your API key's profile permits can be picked."
+    ),
+  findSimilar: z.boolean().optional(),
+  isReport: z.boolean().optional(),
+  async: z
+    .boolean()
+    .optional()
+    .describe(
+      "If true, returns immediately with a pending submission. Poll GET /submissions/:id or GET /checks/:id for the result."
+    ),
+});
+
+export const hasTextOrImage = (data: { text?: string; imageUrl?: string }) =>
+  Boolean((data.text && !data.imageUrl) || (data.imageUrl && !data.text));
+
+export const textOrImageMessage =
+  "Either 'text' OR 'imageUrl' must be provided, but not both";
+
+export const agentRequestBodySchemaV2 = agentRequestBodyFieldsV2
+  .describe(
+    "Request body schema. For text, pass 'text' only. For image, pass 'imageUrl' or 'caption'. Leave 'model' blank for default."
+  )
+  .refine(hasTextOrImage, {
+    message: textOrImageMessage,
+  });
+
 // Define the shared request schema
 export const agentRequestSchemaV2 = {
   headers: z.object({
     "x-request-id": z
       .string()
       .nullish()
-      .describe("Unique request identifier for tracing"),
+      .describe(
+        "Unique request identifier for tracing. Retries with the same ID within a day get the first response instead of a new check."
+      ),
     "x-api-key": z
       .string({
         required_error: "API key is required for authentication",
@@ -27,29 +97,7 @@ export const agentRequestSchemaV2 = {
   body: {
     content: {
       "application/json": {
-        schema: z
-          .object({
-            // For text-only requests
-            text: z.string().optional(),
-            // For image requests
-            imageUrl: z.string().optional(),
-            caption: z.string().nullable().optional(),
-            // Common properties
-            model: z.string().optional(),
-            findSimilar: z.boolean().optional(),
-            isReport: z.boolean().optional(),
-          })
-          .describe(
-            "Request body schema. For text, pass 'text' only. For image, pass 'imageUrl' or 'caption'. Leave 'model' blank for default."
-          )
-          .refine(
-            (data) =>
-              (data.text && !data.imageUrl) || (data.imageUrl && !data.text),
-            {
-              message:
-                "Either 'text' OR 'imageUrl' must be provided, but not both",
-            }
-          ),
+        schema: agentRequestBodySchemaV2,
         examples: {
           "Text Request Example": {
             value: {
@@ -64,6 +112,14 @@ export const agentRequestSchemaV2 = {
             },
             summary: "Example of an image request with caption",
           },
+          "Async Request Example": {
+            value: {
+              text: "Hello",
+              async: true,
+            },
+            summary:
+              "Example of a request that returns before the check completes",
+          },
         },
       },
     },
@@ -71,27 +127,48 @@ export const agentRequestSchemaV2 = {
   },
 };
 
-// Extracted handler logic that can be reused
-export async function handleAgentRequest(
+export type AgentRequestBodyV2 = {
+  text?: string;
+  imageUrl?: string;
+  caption?: string | null;
+  model?: string;
+  pipelineProfile?: string;
+  findSimilar?: boolean;
+  isReport?: boolean;
+  async?: boolean;
+};
+
+/**
+ * Rejects a request that picks a pipeline profile or model its consumer's
+ * profile does not permit. Returns null if the request is permitted.
+ */
+export function rejectPipelineOverrides(
   c: Context,
-  data: {
-    headers?: { "x-request-id"?: string | null };
-    body: {
-      text?: string;
-      imageUrl?: string;
-      caption?: string | null;
-      model?: string;
-      findSimilar?: boolean;
-      isReport?: boolean;
-    };
-  },
-  loggerInstance = logger,
-  removeReport = false
-): Promise<Response> {
-  // Extract request ID from headers
-  const requestId = data.headers?.["x-request-id"] || crypto.randomUUID();
-  const childLogger = loggerInstance.child({ requestId });
-  const { text, imageUrl, caption, model, findSimilar, isReport } = data.body;
+  body: Pick<AgentRequestBodyV2, "pipelineProfile" | "model">
+): Response | null {
+  const error = getPipelineOverrideError(
+    c.get("pipelineProfile"),
+    body.pipelineProfile,
+    body.model
+  );
+  return error ? errorResponse(c, "FORBIDDEN", error) : null;
+}
+
+// Builds the AgentRequest sent to the AI checker service from a validated request body
+export function buildAgentRequest(
+  c: Context,
+  body: AgentRequestBodyV2,
+  requestId: string
+): AgentRequest {
+  const {
+    text,
+    imageUrl,
+    caption,
+    model,
+    pipelineProfile,
+    findSimilar,
+    isReport,
+  } = body;
   let agentRequest: AgentRequest;
   if (text) {
     agentRequest = {
@@ -117,6 +194,11 @@ export async function handleAgentRequest(
   if (consumerName) {
     agentRequest.consumerName = consumerName;
   }
+  // The request's profile takes precedence over the consumer's
+  const profile = pipelineProfile ?? c.get("pipelineProfile");
+  if (profile) {
+    agentRequest.pipelineProfile = profile;
+  }
   if (findSimilar === false) {
     agentRequest.findSimilar = false;
   } else {
@@ -125,11 +207,69 @@ export async function handleAgentRequest(
   if (isReport) {
     agentRequest.isReport = true;
   }
+  return agentRequest;
+}
+
+/**
+ * Extracted handler logic that can be reused.
+ * Requests with an x-request-id are only run once, see withIdempotency.
+ */
+export async function handleAgentRequest(
+  c: Context,
+  data: {
+    headers?: { "x-request-id"?: string | null };
+    body: AgentRequestBodyV2;
+  },
+  loggerInstance = logger,
+  removeReport = false
+): Promise<Response> {
+  const rejection = rejectPipelineOverrides(c, data.body);
+  if (rejection) {
+    return rejection;
+  }
+  return withIdempotency(c, data.headers?.["x-request-id"], data.body, () =>
+    runAgentRequest(c, data, loggerInstance, removeReport)
+  );
+}
+
+async function runAgentRequest(
+  c: Context,
+  data: {
+    headers?: { "x-request-id"?: string | null };
+    body: AgentRequestBodyV2;
+  },
+  loggerInstance = logger,
+  removeReport = false
+): Promise<Response> {
+  // Extract request ID from headers
+  const requestId = data.headers?.["x-request-id"] || crypto.randomUUID();
+  const childLogger = loggerInstance.child({ requestId });
+  const isAsync = data.body.async;
+  const agentRequest = buildAgentRequest(c, data.body, requestId);
 
   try {
     // Add request ID to logger context
     childLogger.info("Processing agent check request");
 
+    if (isAsync) {
+      const submitResult: SubmissionAcceptedResult =
+        await c.env.AI_CHECKER_SERVICE.submit(agentRequest);
+      c.header("x-request-id", requestId);
+
+      if (submitResult.success) {
+        childLogger.info(
+          submitResult.result,
+          "Agent check accepted for background processing"
+        );
+        return c.json(submitResult, 202);
+      }
+      childLogger.error(
+        { error: submitResult.error, requestId },
+        "Agent check submission failed"
+      );
+      return errorResponse(c, "INTERNAL_ERROR", submitResult.error.message);
+    }
+
     const agentResult: AgentResult = await c.env.AI_CHECKER_SERVICE.check(
       agentRequest
     );
@@ -153,8 +293,11 @@ export async function handleAgentRequest(
         { error: agentResult.error, requestId },
         "Agent check failed"
       );
-      // Return the error response from the agent service with 200 status
-      return c.json(agentResult);
+      return errorResponse(
+        c,
+        getErrorCodeForErrorType(agentResult.error.code),
+        agentResult.error.message
+      );
     }
   } catch (error: unknown) {
     const errorMessage =
@@ -171,17 +314,18 @@ export async function handleAgentRequest(
     // Return the request ID in the response headers even for errors
     c.header("x-request-id", requestId);
 
-    return c.json(
-      {
-        success: false,
-        error: "Internal server error",
-      },
-      500
+    const code = getErrorCodeForError(error);
+    return errorResponse(
+      c,
+      code,
+      code === "UPSTREAM_TIMEOUT"
+        ? "Timed out waiting for the check"
+        : "Internal server error"
     );
   }
 }
 
-export class AgentCheckV2 extends OpenAPIRoute {
+export class AgentCheckV2 extends ApiRoute {
   schema = {
     tags: ["Agent"],
     summary: "Get the result of the agent check",
@@ -196,6 +340,33 @@ export class AgentCheckV2 extends OpenAPIRoute {
           },
         },
       },
+      "202": {
+        description:
+          "Returned for async requests. The check continues in the background.",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(
+              SubmissionStatusSchema.pick({
+                submissionId: true,
+                checkId: true,
+                checkStatus: true,
+                generationStatus: true,
+              })
+            ),
+          },
+        },
+      },
+      "409": {
+        description:
+          "The x-request-id was already used with a different body, or its first request is still being processed",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      ...ConsumerAuthErrorResponses,
+      ...CheckErrorResponses,
       "500": {
         description: "Error response",
         content: {
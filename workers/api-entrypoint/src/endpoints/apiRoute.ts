@@ -0,0 +1,13 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { errorBody } from "../utils/errors";
+
+// Base class of all endpoints, so that invalid requests get the same error envelope as other errors
+export class ApiRoute extends OpenAPIRoute {
+  handleValidationError(errors: z.ZodIssue[]): Response {
+    return Response.json(
+      errorBody("INVALID_REQUEST", "Invalid request", errors),
+      { status: 400 }
+    );
+  }
+}
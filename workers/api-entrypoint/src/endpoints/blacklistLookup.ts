@@ -0,0 +1,165 @@
+import { Bool, Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import {
+  ConsumerAuthErrorResponses,
+  ErrorResponseSchema,
+  SuccessResponseSchema,
+} from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("blacklistLookup");
+
+const MAX_BATCH_SIZE = 1000;
+// Returned by the blacklist service before any blacklist has been uploaded
+const NO_BLACKLIST_ERROR = "No blacklist configured";
+
+const BlacklistLookupResultSchema = z.object({
+  phone: Str({ description: "The phone number as given in the request" }),
+  normalizedPhone: Str({
+    description:
+      "The phone number in E.164 format, assuming Singapore if it has no country code. Null if it has no digits.",
+  }).nullable(),
+  isBlacklisted: Bool(),
+});
+
+const BlacklistLookupResponseSchema = SuccessResponseSchema(
+  z.object({
+    results: z.array(BlacklistLookupResultSchema),
+    version: Str({
+      description: "Version of the blacklist the numbers were checked against",
+    }).nullable(),
+  })
+);
+
+const headersSchema = z.object({
+  "x-api-key": z
+    .string({
+      required_error: "API key is required for authentication",
+    })
+    .describe("API key for authentication"),
+  "x-request-id": z
+    .string()
+    .optional()
+    .describe("Optional request ID for tracing"),
+});
+
+const responses = {
+  "200": {
+    description: "Returns whether each phone number is blacklisted",
+    content: {
+      "application/json": {
+        schema: BlacklistLookupResponseSchema,
+      },
+    },
+  },
+  ...ConsumerAuthErrorResponses,
+  "500": {
+    description: "Error response",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+};
+
+async function handleLookup(c: Context, phoneNumbers: string[]) {
+  const requestId = c.req.header("x-request-id") || crypto.randomUUID();
+  const childLogger = logger.child({ requestId });
+  c.header("x-request-id", requestId);
+
+  try {
+    const result = await c.env.BLACKLIST_SERVICE.lookupBlacklistBatch(
+      phoneNumbers
+    );
+    if (result.error && result.error !== NO_BLACKLIST_ERROR) {
+      throw new Error(result.error);
+    }
+
+    childLogger.info(
+      {
+        count: phoneNumbers.length,
+        blacklistedCount: result.results.filter(
+          (lookup: { isBlacklisted: boolean }) => lookup.isBlacklisted
+        ).length,
+        version: result.version,
+      },
+      "Looked up phone numbers in the blacklist"
+    );
+    return c.json({
+      success: true,
+      result: {
+        results: result.results,
+        version: result.version ?? null,
+      },
+    });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error
+        ? error.message
+        : "Unknown error occurred in blacklistLookup handler";
+    childLogger.error(
+      { error, errorMessage },
+      "Error in blacklistLookup handler"
+    );
+    return errorResponse(c, "INTERNAL_ERROR", "Failed to look up blacklist");
+  }
+}
+
+export class BlacklistLookupGet extends ApiRoute {
+  schema = {
+    tags: ["Blacklist"],
+    summary: "Check if a phone number is blacklisted",
+    description:
+      "Numbers are normalized before matching, so +65 9123 4567, 91234567 and 6591234567 all match the same blacklisted number.",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: headersSchema,
+      query: z.object({
+        phoneNumber: Str({ description: "The phone number to look up" }),
+      }),
+    },
+    responses,
+  };
+
+  async handle(c: Context) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    return handleLookup(c, [data.query.phoneNumber]);
+  }
+}
+
+export class BlacklistLookupPost extends ApiRoute {
+  schema = {
+    tags: ["Blacklist"],
+    summary: "Check if phone numbers are blacklisted",
+    description:
+      "Looks up several phone numbers at once. Each number counts towards the rate limit. Numbers are normalized before matching.",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: headersSchema,
+      body: {
+        content: {
+          "application/json": {
+            schema: z.object({
+              phoneNumbers: z
+                .array(z.string())
+                .min(1)
+                .max(MAX_BATCH_SIZE)
+                .describe("Phone numbers to look up"),
+            }),
+          },
+        },
+        required: true,
+      },
+    },
+    responses,
+  };
+
+  async handle(c: Context) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    return handleLookup(c, data.body.phoneNumbers);
+  }
+}
@@ -0,0 +1,296 @@
+import { Bool, Num, Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import {
+  createLogger,
+  hashText,
+  mapWithConcurrency,
+} from "@workspace/shared-utils";
+import { AgentResult, SubmissionAcceptedResult } from "@workspace/shared-types";
+import {
+  ConsumerAuthErrorResponses,
+  ErrorResponseSchema,
+  SuccessResponseSchema,
+} from "../schemas";
+import {
+  AgentRequestBodyV2,
+  agentRequestBodyFieldsV2,
+  buildAgentRequest,
+  hasTextOrImage,
+  rejectPipelineOverrides,
+  textOrImageMessage,
+} from "./agentCheckV2";
+import { ApiRoute } from "./apiRoute";
+import {
+  ERROR_CODE_NAMES,
+  errorResponse,
+  getErrorCodeForError,
+  getErrorCodeForErrorType,
+} from "../utils/errors";
+
+const logger = createLogger("checkBatch");
+
+// Kept below the default rate limit capacity so a full batch can be accepted
+const MAX_BATCH_SIZE = 50;
+// Synchronous batches run every pipeline within the request, so only a few fit its duration
+const MAX_SYNC_BATCH_SIZE = 5;
+const BATCH_CONCURRENCY = 5;
+
+const BatchItemResultSchema = z.object({
+  index: Num({ description: "The index of the item in the request" }),
+  duplicateOf: Num({
+    description:
+      "The index of an earlier identical item in the batch, whose result this item shares",
+  }).nullable(),
+  success: Bool(),
+  checkId: Str({ description: "The ID of the check" }).nullable(),
+  submissionId: Str({
+    description: "The ID of the submission, for async batches",
+  }).nullable(),
+  status: Str({
+    description:
+      "The generation status of the check, e.g. pending, completed, error-agentLoop",
+  }),
+  error: Str().optional(),
+  errorCode: z
+    .enum(ERROR_CODE_NAMES)
+    .optional()
+    .describe("A stable code for why the item failed"),
+});
+
+type BatchItemResult = z.infer<typeof BatchItemResultSchema>;
+
+// Identical items within a batch share a key, so they are only checked once
+async function getDedupKey(item: AgentRequestBodyV2) {
+  if (item.text) {
+    return `text:${await hashText(item.text.trim())}`;
+  }
+  return `image:${await hashText(`${item.imageUrl}\n${item.caption ?? ""}`)}`;
+}
+
+export class CheckBatch extends ApiRoute {
+  schema = {
+    tags: ["Agent"],
+    summary: "Submit a batch of checks",
+    description: `Accepts up to ${MAX_BATCH_SIZE} items with async, or ${MAX_SYNC_BATCH_SIZE} without, each validated like a /getAgentResultV2 body. Identical items within the batch are only checked once, and items similar to existing checks are matched as usual. Each item counts as one request for rate limiting.`,
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: z.object({
+        "x-request-id": z
+          .string()
+          .nullish()
+          .describe("Unique request identifier for tracing"),
+        "x-api-key": z
+          .string({
+            required_error: "API key is required for authentication",
+          })
+          .describe("API key for authentication"),
+      }),
+      body: {
+        content: {
+          "application/json": {
+            schema: z
+              .object({
+                items: z
+                  .array(
+                    agentRequestBodyFieldsV2
+                      .omit({ async: true })
+                      .refine(hasTextOrImage, { message: textOrImageMessage })
+                  )
+                  .min(1)
+                  .max(MAX_BATCH_SIZE),
+                async: z
+                  .boolean()
+                  .optional()
+                  .describe(
+                    `If true, returns once every item is queued, with pending submissions. Poll GET /submissions/:id for each result. Required for batches of more than ${MAX_SYNC_BATCH_SIZE} items.`
+                  ),
+              })
+              .refine(
+                (body) =>
+                  body.async || body.items.length <= MAX_SYNC_BATCH_SIZE,
+                {
+                  message: `Batches of more than ${MAX_SYNC_BATCH_SIZE} items must be async`,
+                  path: ["items"],
+                }
+              ),
+            examples: {
+              "Batch Request Example": {
+                value: {
+                  items: [
+                    { text: "Hello" },
+                    {
+                      imageUrl: "https://example.com/image.jpg",
+                      caption: "Is this true?",
+                    },
+                  ],
+                  async: true,
+                },
+                summary: "Example of a batch with a text and an image item",
+              },
+            },
+          },
+        },
+        required: true,
+      },
+    },
+    responses: {
+      "200": {
+        description: "Returns the result of each item, in request order",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(
+              z.object({
+                items: z.array(BatchItemResultSchema),
+              })
+            ),
+          },
+        },
+      },
+      ...ConsumerAuthErrorResponses,
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context): Promise<Response> {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const requestId = data.headers?.["x-request-id"] || crypto.randomUUID();
+    const childLogger = logger.child({ requestId });
+    const { items, async: isAsync } = data.body;
+
+    for (const item of items) {
+      const rejection = rejectPipelineOverrides(c, item);
+      if (rejection) {
+        return rejection;
+      }
+    }
+
+    try {
+      // Map each item to the first identical item in the batch
+      const firstIndexByKey = new Map<string, number>();
+      const duplicateOf: (number | null)[] = [];
+      for (const [index, item] of items.entries()) {
+        const key = await getDedupKey(item);
+        const firstIndex = firstIndexByKey.get(key);
+        if (firstIndex === undefined) {
+          firstIndexByKey.set(key, index);
+          duplicateOf.push(null);
+        } else {
+          duplicateOf.push(firstIndex);
+        }
+      }
+      const uniqueIndexes = Array.from(firstIndexByKey.values());
+      childLogger.info(
+        { items: items.length, uniqueItems: uniqueIndexes.length },
+        "Processing check batch"
+      );
+
+      const uniqueResults = await mapWithConcurrency(
+        uniqueIndexes,
+        BATCH_CONCURRENCY,
+        async (index): Promise<BatchItemResult> => {
+          const agentRequest = buildAgentRequest(
+            c,
+            items[index],
+            `${requestId}-${index}`
+          );
+          try {
+            if (isAsync) {
+              const submitResult: SubmissionAcceptedResult =
+                await c.env.AI_CHECKER_SERVICE.submit(agentRequest);
+              if (!submitResult.success) {
+                throw new Error(submitResult.error.message);
+              }
+              return {
+                index,
+                duplicateOf: null,
+                success: true,
+                checkId: submitResult.result.checkId,
+                submissionId: submitResult.result.submissionId,
+                status: submitResult.result.generationStatus,
+              };
+            }
+
+            const agentResult: AgentResult =
+              await c.env.AI_CHECKER_SERVICE.check(agentRequest);
+            if (!agentResult.success) {
+              return {
+                index,
+                duplicateOf: null,
+                success: false,
+                checkId: agentResult.id ?? null,
+                submissionId: null,
+                status: "error",
+                error: agentResult.error.message,
+                errorCode: getErrorCodeForErrorType(agentResult.error.code),
+              };
+            }
+            return {
+              index,
+              duplicateOf: null,
+              success: true,
+              checkId: agentResult.id ?? null,
+              submissionId: null,
+              status: agentResult.result.generationStatus,
+            };
+          } catch (error: unknown) {
+            const errorMessage =
+              error instanceof Error ? error.message : "Unknown error occurred";
+            childLogger.error(
+              { error, errorMessage, index },
+              "Batch item failed"
+            );
+            return {
+              index,
+              duplicateOf: null,
+              success: false,
+              checkId: null,
+              submissionId: null,
+              status: "error",
+              error: errorMessage,
+              errorCode: getErrorCodeForError(error),
+            };
+          }
+        }
+      );
+
+      const resultByIndex = new Map(
+        uniqueResults.map((result) => [result.index, result])
+      );
+      const results = items.map((_, index) => {
+        const firstIndex = duplicateOf[index];
+        if (firstIndex === null) {
+          return resultByIndex.get(index)!;
+        }
+        return {
+          ...resultByIndex.get(firstIndex)!,
+          index,
+          duplicateOf: firstIndex,
+        };
+      });
+
+      c.header("x-request-id", requestId);
+      return c.json({
+        success: true,
+        result: {
+          items: results,
+        },
+      });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Unknown error occurred in checkBatch handler";
+      childLogger.error({ error, errorMessage }, "Error in checkBatch handler");
+      c.header("x-request-id", requestId);
+      return errorResponse(c, "INTERNAL_ERROR", "Internal server error");
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { Bool, Num, Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import { CheckErasureResult } from "@workspace/shared-types";
+import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("eraseCheck");
+
+const CheckErasureSchema = z.object({
+  checkId: Str({ description: "The ID of the erased check" }),
+  submissionsDeleted: Num({
+    description: "The number of submissions of the check that were deleted",
+  }),
+  objectsDeleted: Num({
+    description: "The number of stored images and screenshots removed",
+  }),
+  traceDeleted: Bool({ description: "Whether a Langfuse trace was deleted" }),
+});
+
+export class EraseCheck extends ApiRoute {
+  schema = {
+    tags: ["Agent"],
+    summary: "Erase a check and all its data",
+    description:
+      "For takedown and privacy requests. Deletes the check, its submissions with their feedback and audit entries, the stored image, the screenshots taken for it that no other check uses and the Langfuse trace, and leaves a tombstone so the check is never recreated or matched again. Erasing an already erased check succeeds.",
+    request: {
+      params: z.object({
+        id: z
+          .string()
+          .regex(/^[0-9a-f]{24}$/i, "Must be a check ID")
+          .describe("The ID of the check"),
+      }),
+      body: {
+        content: {
+          "application/json": {
+            schema: z.object({
+              reason: z
+                .string()
+                .max(500)
+                .optional()
+                .describe("Why the check is erased, e.g. a ticket reference"),
+            }),
+          },
+        },
+        required: false,
+      },
+    },
+    responses: {
+      "200": {
+        description: "The check was erased",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(CheckErasureSchema),
+          },
+        },
+      },
+      "404": {
+        description: "Check not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { id } = data.params;
+    const adminIdentity = c.get("adminIdentity");
+    const actor = `admin:${adminIdentity.id}`;
+
+    try {
+      const result: CheckErasureResult =
+        await c.env.AI_CHECKER_SERVICE.eraseCheck(
+          id,
+          actor,
+          data.body?.reason ?? null
+        );
+      if (!result.success) {
+        if (result.error.message === "Check not found") {
+          return errorResponse(c, "CHECK_NOT_FOUND", "Check not found");
+        }
+        throw new Error(result.error.message);
+      }
+
+      logger.info({ ...result.result, adminIdentity }, "Check erased");
+      return c.json(
+        {
+          success: true,
+          result: result.result,
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error({ error: error.message, id }, "Failed to erase check");
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to erase check: ${error.message}`
+      );
+    }
+  }
+}
@@ -1,13 +1,16 @@
-import { Bool, DateTime, OpenAPIRoute, Str } from "chanfana";
+import { Bool, DateTime, Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
 import { AgentResult } from "@workspace/shared-types";
 import {
+  CheckResultSchema,
+  ConsumerAuthErrorResponses,
   ErrorResponseSchema,
   SuccessResponseSchema,
-  CheckResultSchema,
 } from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("getCheck");
 
@@ -56,13 +59,7 @@ export async function handleGetCheck(
         "Failed to get check"
       );
       if (agentResult.error?.message === "Check not found") {
-        return c.json(
-          {
-            success: false,
-            error: "Check not found",
-          },
-          404
-        );
+        return errorResponse(c, "CHECK_NOT_FOUND", "Check not found");
       }
       throw new Error(agentResult.error?.message || "Failed to get check");
     }
@@ -75,17 +72,11 @@ export async function handleGetCheck(
     // Include request ID in error logs
     childLogger.error({ error, errorMessage, id }, "Error in getCheck handler");
 
-    return c.json(
-      {
-        success: false,
-        error: "Internal server error",
-      },
-      500
-    );
+    return errorResponse(c, "INTERNAL_ERROR", "Internal server error");
   }
 }
 
-export class GetCheck extends OpenAPIRoute {
+export class GetCheck extends ApiRoute {
   schema = {
     tags: ["Agent"],
     summary: "Get the result of the requested check",
@@ -100,6 +91,7 @@ export class GetCheck extends OpenAPIRoute {
           },
         },
       },
+      ...ConsumerAuthErrorResponses,
       "500": {
         description: "Error response",
         content: {
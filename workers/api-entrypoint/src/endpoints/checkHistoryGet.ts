@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import { CheckAuditEntry } from "@workspace/shared-types";
+import {
+  CheckAuditEntrySchema,
+  ErrorResponseSchema,
+  SuccessResponseSchema,
+} from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("getCheckHistory");
+
+export class GetCheckHistory extends ApiRoute {
+  schema = {
+    tags: ["Agent"],
+    summary: "Get the history of a check",
+    description:
+      "Returns every recorded update of a check, oldest first, with who made it and the changed fields before and after.",
+    request: {
+      params: z.object({
+        id: z
+          .string()
+          .regex(/^[0-9a-f]{24}$/i, "Must be a check ID")
+          .describe("The ID of the check"),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "Returns the check's audit entries",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(z.array(CheckAuditEntrySchema)),
+          },
+        },
+      },
+      "404": {
+        description: "Check not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { id } = data.params;
+
+    try {
+      const checkResult = await c.env.DATABASE_SERVICE.findCheckById(id);
+      if (!checkResult.success) {
+        return errorResponse(c, "CHECK_NOT_FOUND", "Check not found");
+      }
+
+      const auditsResult =
+        await c.env.DATABASE_SERVICE.findCheckAuditsByCheckId(id);
+      if (!auditsResult.success) {
+        throw new Error(auditsResult.error || "Failed to find audit entries");
+      }
+
+      logger.info(
+        { id, adminIdentity: c.get("adminIdentity") },
+        "Check history retrieved"
+      );
+      return c.json(
+        {
+          success: true,
+          result: (auditsResult.data as CheckAuditEntry[]).map(
+            ({ version, actor, timestamp, changes }) => ({
+              version,
+              actor,
+              timestamp,
+              changes,
+            })
+          ),
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error({ error: error.message, id }, "Failed to get check history");
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to get check history: ${error.message}`
+      );
+    }
+  }
+}
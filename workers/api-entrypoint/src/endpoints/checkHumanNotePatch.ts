@@ -1,9 +1,15 @@
-import { Bool, OpenAPIRoute } from "chanfana";
+import { Bool } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
-import { CheckUpdate } from "@workspace/shared-types";
-import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { HumanNoteUpdate } from "@workspace/shared-types";
+import {
+  ConsumerAuthErrorResponses,
+  ErrorResponseSchema,
+  SuccessResponseSchema,
+} from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("patchCheckHumanNote");
 
@@ -24,12 +30,38 @@ export const patchCheckHumanNoteRequestSchema = {
       "application/json": {
         schema: z.object({
           en: z.string().nullable().describe("The human note in English"),
-          cn: z.string().nullable().describe("The human note in Chinese"),
+          cn: z
+            .string()
+            .nullable()
+            .optional()
+            .describe("The human note in Chinese"),
+          ms: z
+            .string()
+            .nullable()
+            .optional()
+            .describe("The human note in Malay"),
+          id: z
+            .string()
+            .nullable()
+            .optional()
+            .describe("The human note in Indonesian"),
+          ta: z
+            .string()
+            .nullable()
+            .optional()
+            .describe("The human note in Tamil"),
           links: z
             .array(z.string())
             .nullable()
             .describe("The links to the human note"),
           updatedBy: z.string().describe("The user who updated the human note"),
+          autoTranslate: z
+            .boolean()
+            .optional()
+            .default(true)
+            .describe(
+              "Translate the English note into the languages left out. Machine translations are listed in machineTranslated."
+            ),
         }),
       },
     },
@@ -43,12 +75,7 @@ export async function handlePatchCheckHumanNote(
     params: {
       id: string;
     };
-    body: {
-      en: string | null;
-      cn: string | null;
-      links: string[] | null;
-      updatedBy: string;
-    };
+    body: HumanNoteUpdate;
   },
   loggerInstance = logger
 ): Promise<Response> {
@@ -69,15 +96,10 @@ export async function handlePatchCheckHumanNote(
 
     if (!result.success) {
       childLogger.error({ result }, "Failed to update human note");
-      return c.json(
-        {
-          success: false,
-          error:
-            "error" in result
-              ? result.error.message
-              : "Failed to update human note",
-        },
-        500
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        "error" in result ? result.error.message : "Failed to update human note"
       );
     }
 
@@ -86,6 +108,7 @@ export async function handlePatchCheckHumanNote(
     return c.json({
       success: true,
       message: "Human note updated successfully",
+      machineTranslated: result.machineTranslated ?? [],
     });
   } catch (error: unknown) {
     const errorMessage =
@@ -98,17 +121,11 @@ export async function handlePatchCheckHumanNote(
       "Error in patchCheckHumanNote handler"
     );
 
-    return c.json(
-      {
-        success: false,
-        error: "Internal server error",
-      },
-      500
-    );
+    return errorResponse(c, "INTERNAL_ERROR", "Internal server error");
   }
 }
 
-export class PatchCheckHumanNote extends OpenAPIRoute {
+export class PatchCheckHumanNote extends ApiRoute {
   schema = {
     tags: ["Agent"],
     summary: "Update a check with human note",
@@ -122,11 +139,15 @@ export class PatchCheckHumanNote extends OpenAPIRoute {
             schema: SuccessResponseSchema(
               z.object({
                 message: z.string(),
+                machineTranslated: z
+                  .array(z.enum(["cn", "ms", "id", "ta"]))
+                  .describe("The languages that were translated automatically"),
               })
             ),
           },
         },
       },
+      ...ConsumerAuthErrorResponses,
       "500": {
         description: "Error response",
         content: {
@@ -1,12 +1,15 @@
-import { Bool, OpenAPIRoute } from "chanfana";
+import { Bool } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
 import { CheckUpdate } from "@workspace/shared-types";
 import {
+  ConsumerAuthErrorResponses,
   ErrorResponseSchema,
   SuccessResponseSchema,
 } from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("patchCheck");
 
@@ -60,6 +63,7 @@ export async function handlePatchCheck(
     const checkUpdate: CheckUpdate = {
       id,
       ...data.body,
+      updatedBy: `consumer:${c.get("consumerName")}`,
     };
 
     // Put the update into the queue
@@ -79,17 +83,11 @@ export async function handlePatchCheck(
 
     childLogger.error({ error, errorMessage, id }, "Error in patchCheck handler");
 
-    return c.json(
-      {
-        success: false,
-        error: "Internal server error",
-      },
-      500
-    );
+    return errorResponse(c, "INTERNAL_ERROR", "Internal server error");
   }
 }
 
-export class PatchCheck extends OpenAPIRoute {
+export class PatchCheck extends ApiRoute {
   schema = {
     tags: ["Agent"],
     summary: "Update a check with human assessment data",
@@ -108,6 +106,7 @@ export class PatchCheck extends OpenAPIRoute {
           },
         },
       },
+      ...ConsumerAuthErrorResponses,
       "500": {
         description: "Error response",
         content: {
@@ -0,0 +1,115 @@
+import { Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import { CheckRetryResult } from "@workspace/shared-types";
+import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("retryCheck");
+
+const CheckRetrySchema = z.object({
+  checkId: Str({ description: "The ID of the retried check" }),
+  resumeFrom: z
+    .enum([
+      "preprocess",
+      "extract-claims",
+      "agent-loop",
+      "summarize",
+      "translate",
+    ])
+    .describe("The step the check resumes from"),
+});
+
+export class RetryCheck extends ApiRoute {
+  schema = {
+    tags: ["Agent"],
+    summary: "Retry a failed check",
+    description:
+      "Queues a check whose generation errored to run again. The outputs of the steps that succeeded are kept as checkpoints on the check, so it resumes from the step that failed, e.g. only the translations are redone after a translation error. Progress can be followed with GET /checks/{id}/stream.",
+    request: {
+      params: z.object({
+        id: z
+          .string()
+          .regex(/^[0-9a-f]{24}$/i, "Must be a check ID")
+          .describe("The ID of the check"),
+      }),
+    },
+    responses: {
+      "202": {
+        description: "The check was queued to run again",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(CheckRetrySchema),
+          },
+        },
+      },
+      "404": {
+        description: "Check not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      "409": {
+        description: "The check has not errored, or is already being retried",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { id } = data.params;
+    const adminIdentity = c.get("adminIdentity");
+    const actor = `admin:${adminIdentity.id}`;
+
+    try {
+      const result: CheckRetryResult =
+        await c.env.AI_CHECKER_SERVICE.retryCheck(id, actor);
+      if (!result.success) {
+        if (result.error.message === "Check not found") {
+          return errorResponse(c, "CHECK_NOT_FOUND", "Check not found");
+        }
+        if (result.error.code === "CHECK_NOT_RETRYABLE") {
+          return errorResponse(c, "CONFLICT", result.error.message);
+        }
+        throw new Error(result.error.message);
+      }
+
+      logger.info(
+        { ...result.result, adminIdentity },
+        "Check queued for retry"
+      );
+      return c.json(
+        {
+          success: true,
+          id,
+          result: result.result,
+        },
+        202
+      );
+    } catch (error: any) {
+      logger.error({ error: error.message, id }, "Failed to retry check");
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to retry check: ${error.message}`
+      );
+    }
+  }
+}
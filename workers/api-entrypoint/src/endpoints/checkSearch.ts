@@ -0,0 +1,332 @@
+import { DateTime, Num, Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import {
+  compareImageHashes,
+  createLogger,
+  hashImageFromUrl,
+  MACHINE_CATEGORIES,
+  pdqHashToVector,
+} from "@workspace/shared-utils";
+import { EmbedResponse, SimilarCheckFilters } from "@workspace/shared-types";
+import {
+  CheckResultSchema,
+  ConsumerAuthErrorResponses,
+  ErrorResponseSchema,
+  SuccessResponseSchema,
+} from "../schemas";
+import { hasTextOrImage, textOrImageMessage } from "./agentCheckV2";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("checkSearch");
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+// PDQ hashes are 256 bits, so image scores are 1 - hamming distance / 256
+const PDQ_BITS = 256;
+
+const SearchMatchSchema = z.object({
+  checkId: Str({ description: "The ID of the matching check" }),
+  score: Num({
+    description: "Similarity between 0 and 1, higher is more similar",
+  }),
+  matchType: z
+    .enum(["text", "image", "caption", "both"])
+    .describe(
+      "What matched: the text, the image, the caption, or both the image and caption"
+    ),
+  text: Str().nullable(),
+  imageUrl: Str().nullable(),
+  caption: Str().nullable(),
+  imageHammingDistance: Num({
+    description: "Hamming distance between the PDQ hashes, for image matches",
+  }).nullable(),
+  communityNote: CheckResultSchema.shape.communityNote.nullable(),
+  crowdsourcedCategory: Str().nullable(),
+  machineCategory: z
+    .enum(MACHINE_CATEGORIES)
+    .nullable()
+    .describe("The verdict of the pipeline on the check"),
+  timestamp: DateTime(),
+});
+
+type SearchMatch = z.infer<typeof SearchMatchSchema>;
+
+const searchRequestBodySchema = z
+  .object({
+    text: z.string().optional(),
+    imageUrl: z.string().optional(),
+    caption: z.string().nullable().optional(),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_LIMIT)
+      .optional()
+      .default(DEFAULT_LIMIT)
+      .describe("The maximum number of checks to return"),
+    filters: z
+      .object({
+        humanAssessedOnly: z
+          .boolean()
+          .optional()
+          .describe(
+            "Only return checks assessed by humans. Always applied in production."
+          ),
+        from: DateTime({
+          description: "Only return checks created at or after this time",
+        }).optional(),
+        to: DateTime({
+          description: "Only return checks created at or before this time",
+        }).optional(),
+        crowdsourcedCategory: z
+          .string()
+          .optional()
+          .describe("Only return checks with this crowdsourced category"),
+        machineCategory: z
+          .enum(MACHINE_CATEGORIES)
+          .optional()
+          .describe("Only return checks the pipeline classified this way"),
+      })
+      .optional(),
+  })
+  .refine(hasTextOrImage, { message: textOrImageMessage });
+
+type SearchRequestBody = z.infer<typeof searchRequestBodySchema>;
+
+function getCommunityNote(shortformResponse: any) {
+  return shortformResponse && Object.keys(shortformResponse).length > 0
+    ? shortformResponse
+    : null;
+}
+
+async function embed(c: Context<{ Bindings: Env }>, text: string) {
+  const response = (await c.env.EMBEDDER_SERVICE.embed({
+    text,
+  })) as EmbedResponse;
+  return response.embedding;
+}
+
+async function searchText(
+  c: Context<{ Bindings: Env }>,
+  text: string,
+  limit: number,
+  filters: SimilarCheckFilters
+): Promise<SearchMatch[]> {
+  const results = await c.env.DATABASE_SERVICE.findSimilarTextEmbedding(
+    await embed(c, text),
+    limit,
+    filters
+  );
+  if (!results.success) {
+    throw new Error(`Text search failed: ${results.error}`);
+  }
+  return (results.data || []).map((result: any) => ({
+    checkId: result.id,
+    score: result.score,
+    matchType: "text",
+    text: result.text || null,
+    imageUrl: null,
+    caption: null,
+    imageHammingDistance: null,
+    communityNote: getCommunityNote(result.shortformResponse),
+    crowdsourcedCategory: result.crowdsourcedCategory,
+    machineCategory: result.machineCategory ?? null,
+    timestamp: result.timestamp,
+  }));
+}
+
+async function searchImage(
+  c: Context<{ Bindings: Env }>,
+  imageUrl: string,
+  hasCaption: boolean,
+  limit: number,
+  filters: SimilarCheckFilters
+): Promise<SearchMatch[]> {
+  const pdqHash = await hashImageFromUrl(imageUrl, c.env.IMAGE_HASH_SERVICE);
+  const results = await c.env.DATABASE_SERVICE.findSimilarImageEmbedding(
+    pdqHashToVector(pdqHash),
+    limit,
+    // Images with a caption are also matched by caption, so both kinds are searched
+    hasCaption ? undefined : false,
+    filters
+  );
+  if (!results.success) {
+    throw new Error(`Image search failed: ${results.error}`);
+  }
+  return (results.data || []).map((result: any) => {
+    const imageHammingDistance = result.imageHash
+      ? compareImageHashes(pdqHash, result.imageHash)
+      : null;
+    return {
+      checkId: result.id,
+      score:
+        imageHammingDistance !== null
+          ? 1 - imageHammingDistance / PDQ_BITS
+          : result.distance,
+      matchType: "image",
+      text: null,
+      imageUrl: result.imageUrl,
+      caption: result.caption,
+      imageHammingDistance,
+      communityNote: getCommunityNote(result.shortformResponse),
+      crowdsourcedCategory: result.crowdsourcedCategory,
+      machineCategory: result.machineCategory ?? null,
+      timestamp: result.timestamp,
+    };
+  });
+}
+
+async function searchCaption(
+  c: Context<{ Bindings: Env }>,
+  caption: string,
+  limit: number,
+  filters: SimilarCheckFilters
+): Promise<SearchMatch[]> {
+  const results = await c.env.DATABASE_SERVICE.findSimilarCaptionEmbedding(
+    await embed(c, caption),
+    limit,
+    filters
+  );
+  if (!results.success) {
+    throw new Error(`Caption search failed: ${results.error}`);
+  }
+  return (results.data || []).map((result: any) => ({
+    checkId: result.id,
+    score: result.score,
+    matchType: "caption",
+    text: null,
+    imageUrl: result.imageUrl,
+    caption: result.caption || null,
+    imageHammingDistance: null,
+    communityNote: getCommunityNote(result.shortformResponse),
+    crowdsourcedCategory: result.crowdsourcedCategory,
+    machineCategory: result.machineCategory ?? null,
+    timestamp: result.timestamp,
+  }));
+}
+
+/**
+ * Merges image and caption matches of the same check, keeping the higher
+ * score, and returns the top matches
+ */
+function mergeMatches(
+  imageMatches: SearchMatch[],
+  captionMatches: SearchMatch[],
+  limit: number
+) {
+  const matches = new Map<string, SearchMatch>();
+  for (const match of [...imageMatches, ...captionMatches]) {
+    const existing = matches.get(match.checkId);
+    if (!existing) {
+      matches.set(match.checkId, match);
+      continue;
+    }
+    matches.set(match.checkId, {
+      ...existing,
+      score: Math.max(existing.score, match.score),
+      matchType: "both",
+      imageHammingDistance:
+        existing.imageHammingDistance ?? match.imageHammingDistance,
+    });
+  }
+  return [...matches.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+async function search(c: Context<{ Bindings: Env }>, body: SearchRequestBody) {
+  const filters: SimilarCheckFilters = {
+    humanAssessedOnly: body.filters?.humanAssessedOnly,
+    from: body.filters?.from ? new Date(body.filters.from) : undefined,
+    to: body.filters?.to ? new Date(body.filters.to) : undefined,
+    crowdsourcedCategory: body.filters?.crowdsourcedCategory,
+    machineCategory: body.filters?.machineCategory,
+  };
+
+  if (body.text) {
+    return searchText(c, body.text, body.limit, filters);
+  }
+  const caption = body.caption?.trim();
+  const [imageMatches, captionMatches] = await Promise.all([
+    searchImage(c, body.imageUrl!, !!caption, body.limit, filters),
+    caption ? searchCaption(c, caption, body.limit, filters) : [],
+  ]);
+  return mergeMatches(imageMatches, captionMatches, body.limit);
+}
+
+export class CheckSearch extends ApiRoute {
+  schema = {
+    tags: ["Agent"],
+    summary: "Search existing checks",
+    description:
+      "Finds the existing checks most similar to a text, or to an image and its optional caption. Nothing is submitted, so no check or submission is created.",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: z.object({
+        "x-api-key": z
+          .string({
+            required_error: "API key is required for authentication",
+          })
+          .describe("API key for authentication"),
+      }),
+      body: {
+        content: {
+          "application/json": {
+            schema: searchRequestBodySchema,
+          },
+        },
+      },
+    },
+    responses: {
+      "200": {
+        description: "Returns the matching checks, most similar first",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(z.array(SearchMatchSchema)),
+          },
+        },
+      },
+      ...ConsumerAuthErrorResponses,
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    const data = await this.getValidatedData<typeof this.schema>();
+
+    try {
+      const matches = await search(c, data.body);
+      logger.info(
+        {
+          type: data.body.text ? "text" : "image",
+          filters: data.body.filters,
+          resultCount: matches.length,
+        },
+        "Searched existing checks"
+      );
+      return c.json(
+        {
+          success: true,
+          result: matches,
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error({ error: error.message }, "Failed to search checks");
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to search checks: ${error.message}`
+      );
+    }
+  }
+}
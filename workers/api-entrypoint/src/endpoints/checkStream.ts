@@ -0,0 +1,228 @@
+import { z } from "zod";
+import { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { createLogger } from "@workspace/shared-utils";
+import {
+  CheckProgressEvent,
+  ErrorResponse,
+  SubmissionAcceptedResult,
+} from "@workspace/shared-types";
+import { ConsumerAuthErrorResponses, ErrorResponseSchema } from "../schemas";
+import {
+  agentRequestSchemaV2,
+  buildAgentRequest,
+  rejectPipelineOverrides,
+} from "./agentCheckV2";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("checkStream");
+
+const eventStreamResponse = {
+  description:
+    "Server-Sent Events stream. Events are 'submitted' (new submissions only), 'stage', 'tool-call', 'review', and finally either 'result' (same payload as the agent check result) or 'error'.",
+  content: {
+    "text/event-stream": {
+      schema: z.string(),
+    },
+  },
+};
+
+// Streams the progress of a check as Server-Sent Events
+export async function streamCheckProgress(
+  c: Context,
+  checkId: string,
+  initialEvents: { event: string; data: unknown }[] = [],
+  loggerInstance = logger
+): Promise<Response> {
+  const childLogger = loggerInstance.child({ checkId });
+
+  const progress: ReadableStream<Uint8Array> | ErrorResponse =
+    await c.env.AI_CHECKER_SERVICE.streamProgress(checkId);
+
+  if (!(progress instanceof ReadableStream)) {
+    childLogger.error({ error: progress.error }, "Failed to stream progress");
+    if (progress.error?.message === "Check not found") {
+      return errorResponse(c, "CHECK_NOT_FOUND", "Check not found");
+    }
+    return errorResponse(c, "INTERNAL_ERROR", "Internal server error");
+  }
+
+  return streamSSE(c, async (stream) => {
+    const reader = progress.pipeThrough(new TextDecoderStream()).getReader();
+    stream.onAbort(() => {
+      childLogger.info("Client disconnected from progress stream");
+      reader.cancel().catch(() => {});
+    });
+
+    let eventId = 0;
+    for (const initialEvent of initialEvents) {
+      await stream.writeSSE({
+        id: String(eventId++),
+        event: initialEvent.event,
+        data: JSON.stringify(initialEvent.data),
+      });
+    }
+
+    // The AI checker service sends newline-delimited JSON events
+    let buffer = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += value;
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        if (!line) {
+          continue;
+        }
+        let event: CheckProgressEvent;
+        try {
+          event = JSON.parse(line);
+        } catch (error) {
+          childLogger.warn(
+            { error, line },
+            "Skipping malformed progress event"
+          );
+          continue;
+        }
+        await stream.writeSSE({
+          id: String(eventId++),
+          event: event.type,
+          data: line,
+        });
+      }
+    }
+    childLogger.info("Progress stream completed");
+  });
+}
+
+export class CheckStream extends ApiRoute {
+  schema = {
+    tags: ["Agent"],
+    summary: "Submit a check and stream its progress",
+    description:
+      "Accepts the same body as /getAgentResultV2 and streams the check progress as Server-Sent Events.",
+    security: [{ ApiKeyAuth: [] }],
+    request: agentRequestSchemaV2,
+    responses: {
+      "200": eventStreamResponse,
+      ...ConsumerAuthErrorResponses,
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context): Promise<Response> {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const requestId = data.headers?.["x-request-id"] || crypto.randomUUID();
+    const childLogger = logger.child({ requestId });
+    const rejection = rejectPipelineOverrides(c, data.body);
+    if (rejection) {
+      return rejection;
+    }
+
+    try {
+      const agentRequest = buildAgentRequest(c, data.body, requestId);
+      const submitResult: SubmissionAcceptedResult =
+        await c.env.AI_CHECKER_SERVICE.submit(agentRequest);
+      c.header("x-request-id", requestId);
+
+      if (!submitResult.success) {
+        childLogger.error(
+          { error: submitResult.error },
+          "Agent check submission failed"
+        );
+        return errorResponse(c, "INTERNAL_ERROR", submitResult.error.message);
+      }
+
+      childLogger.info(submitResult.result, "Streaming new check progress");
+      return streamCheckProgress(
+        c,
+        submitResult.result.checkId,
+        [{ event: "submitted", data: submitResult.result }],
+        childLogger
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Unknown error occurred in checkStream handler";
+      childLogger.error(
+        { error, errorMessage },
+        "Error in checkStream handler"
+      );
+      c.header("x-request-id", requestId);
+      return errorResponse(c, "INTERNAL_ERROR", "Internal server error");
+    }
+  }
+}
+
+export class CheckProgressStream extends ApiRoute {
+  schema = {
+    tags: ["Agent"],
+    summary: "Stream the progress of an existing check",
+    description:
+      "Replays the progress so far and streams the rest as Server-Sent Events. Completed checks emit the result immediately.",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: z.object({
+        "x-api-key": z
+          .string({
+            required_error: "API key is required for authentication",
+          })
+          .describe("API key for authentication"),
+      }),
+      params: z.object({
+        id: z.string().describe("The ID of the check to stream"),
+      }),
+    },
+    responses: {
+      "200": eventStreamResponse,
+      "404": {
+        description: "Check not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      ...ConsumerAuthErrorResponses,
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context): Promise<Response> {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { id } = data.params;
+    try {
+      return await streamCheckProgress(c, id);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Unknown error occurred in checkProgressStream handler";
+      logger.error(
+        { error, errorMessage, id },
+        "Error in checkProgressStream handler"
+      );
+      return errorResponse(c, "INTERNAL_ERROR", "Internal server error");
+    }
+  }
+}
@@ -1,19 +1,21 @@
-import { OpenAPIRoute } from "chanfana";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
 import {
+  CheckErrorResponses,
+  CheckResultSchema,
+  ConsumerAuthErrorResponses,
   ErrorResponseSchema,
   SuccessResponseSchema,
-  CheckResultSchema,
 } from "../schemas";
 import { handleAgentRequest, agentRequestSchema } from "./agentCheck";
+import { ApiRoute } from "./apiRoute";
 
 const logger = createLogger("communityNote");
 
 // Define the community note result schema by omitting the report field from AgentCheckResultSchema
 const CommunityNoteResultSchema = CheckResultSchema.omit({ report: true });
 
-export class CommunityNote extends OpenAPIRoute {
+export class CommunityNote extends ApiRoute {
   schema = {
     tags: ["Agent"],
     summary: "Get only the community note",
@@ -28,6 +30,17 @@ export class CommunityNote extends OpenAPIRoute {
           },
         },
       },
+      "409": {
+        description:
+          "The x-request-id was already used with a different body, or its first request is still being processed",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      ...ConsumerAuthErrorResponses,
+      ...CheckErrorResponses,
       "500": {
         description: "Error response",
         content: {
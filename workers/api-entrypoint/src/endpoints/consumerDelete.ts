@@ -1,12 +1,14 @@
-import { OpenAPIRoute } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
 import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { getConsumerStub, getConsumerStubByName } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("consumerDelete");
 
-export class ConsumerDelete extends OpenAPIRoute {
+export class ConsumerDelete extends ApiRoute {
   schema = {
     tags: ["Consumer"],
     summary: "Delete consumer by API key or name",
@@ -61,45 +63,42 @@ export class ConsumerDelete extends OpenAPIRoute {
     try {
       const apiKey = c.req.header("x-api-key");
       const consumerName = c.req.param("consumerName");
+      logger.info(
+        {
+          consumerName,
+          hasApiKey: !!apiKey,
+          adminIdentity: c.get("adminIdentity"),
+        },
+        "Processing consumer deletion request"
+      );
 
       // Case 1: Neither API key nor name provided
       if (!apiKey && !consumerName) {
-        return c.json(
-          {
-            success: false,
-            error: "Either API key or consumer name is required",
-          },
-          400
+        return errorResponse(
+          c,
+          "INVALID_REQUEST",
+          "Either API key or consumer name is required"
         );
       }
 
       // Case 2: Both API key and name provided
       if (apiKey && consumerName) {
         // Get the Durable Object stub
-        const id = c.env.CONSUMER.idFromName(apiKey);
-        const stub = c.env.CONSUMER.get(id);
+        const stub = await getConsumerStub(c.env, apiKey);
 
         // Check if the consumer exists
-        const initialized = await stub.checkConsumerExists();
-        if (!initialized) {
-          return c.json(
-            {
-              success: false,
-              error: "Invalid API key",
-            },
-            401
-          );
+        const initialized = stub !== null && (await stub.checkConsumerExists());
+        if (!stub || !initialized) {
+          return errorResponse(c, "UNAUTHORIZED", "Invalid API key");
         }
 
         // Get consumer details to verify name matches
         const name = await stub.getName();
         if (name !== consumerName) {
-          return c.json(
-            {
-              success: false,
-              error: "API key does not match the provided consumer name",
-            },
-            401
+          return errorResponse(
+            c,
+            "UNAUTHORIZED",
+            "API key does not match the provided consumer name"
           );
         }
 
@@ -123,19 +122,12 @@ export class ConsumerDelete extends OpenAPIRoute {
       // Case 3: Only API key provided
       if (apiKey && !consumerName) {
         // Get the Durable Object stub
-        const id = c.env.CONSUMER.idFromName(apiKey);
-        const stub = c.env.CONSUMER.get(id);
+        const stub = await getConsumerStub(c.env, apiKey);
 
         // Check if the consumer exists
-        const initialized = await stub.checkConsumerExists();
-        if (!initialized) {
-          return c.json(
-            {
-              success: false,
-              error: "Invalid API key",
-            },
-            401
-          );
+        const initialized = stub !== null && (await stub.checkConsumerExists());
+        if (!stub || !initialized) {
+          return errorResponse(c, "UNAUTHORIZED", "Invalid API key");
         }
 
         // Get consumer details to get the name
@@ -161,25 +153,17 @@ export class ConsumerDelete extends OpenAPIRoute {
 
       // Case 4: Only name provided
       if (!apiKey && consumerName) {
-        // Get API key from KV
-        const consumerKey = await c.env.CONSUMER_KV.get(
-          `consumer:${consumerName}`
-        );
-
-        if (!consumerKey) {
-          return c.json(
-            {
-              success: false,
-              error: `Consumer with name ${consumerName} not found`,
-            },
-            404
+        // Get the Durable Object stub from the consumer's API key in KV
+        const stub = await getConsumerStubByName(c.env, consumerName);
+
+        if (!stub) {
+          return errorResponse(
+            c,
+            "CONSUMER_NOT_FOUND",
+            `Consumer with name ${consumerName} not found`
           );
         }
 
-        // Get the Durable Object stub
-        const id = c.env.CONSUMER.idFromName(consumerKey);
-        const stub = c.env.CONSUMER.get(id);
-
         // Delete from Durable Object
         await stub.deleteConsumer();
 
@@ -198,12 +182,10 @@ export class ConsumerDelete extends OpenAPIRoute {
       }
     } catch (error: any) {
       logger.error({ error: error.message }, "Failed to delete consumer");
-      return c.json(
-        {
-          success: false,
-          error: `Failed to delete consumer: ${error.message}`,
-        },
-        500
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to delete consumer: ${error.message}`
       );
     }
   }
@@ -1,4 +1,4 @@
-import { Bool, OpenAPIRoute, Str } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
@@ -7,10 +7,13 @@ import {
   SuccessResponseSchema,
   ConsumerCountsSchema,
 } from "../schemas";
+import { getConsumerStub } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("consumerGet");
 
-export class ConsumerGet extends OpenAPIRoute {
+export class ConsumerGet extends ApiRoute {
   schema = {
     tags: ["Consumer"],
     summary: "Get consumer information by API key",
@@ -56,29 +59,16 @@ export class ConsumerGet extends OpenAPIRoute {
     try {
       const apiKey = c.req.header("x-api-key");
       if (!apiKey) {
-        return c.json(
-          {
-            success: false,
-            error: "API key is required",
-          },
-          401
-        );
+        return errorResponse(c, "UNAUTHORIZED", "API key is required");
       }
 
       // Get the Durable Object stub
-      const id = c.env.CONSUMER.idFromName(apiKey);
-      const stub = c.env.CONSUMER.get(id);
+      const stub = await getConsumerStub(c.env, apiKey);
 
       // Check if the consumer exists
-      const initialized = await stub.checkConsumerExists();
-      if (!initialized) {
-        return c.json(
-          {
-            success: false,
-            error: "Invalid API key",
-          },
-          401
-        );
+      const initialized = stub !== null && (await stub.checkConsumerExists());
+      if (!stub || !initialized) {
+        return errorResponse(c, "UNAUTHORIZED", "Invalid API key");
       }
 
       // Get consumer name and allowed APIs
@@ -98,12 +88,10 @@ export class ConsumerGet extends OpenAPIRoute {
         { error: error.message },
         "Failed to get consumer information"
       );
-      return c.json(
-        {
-          success: false,
-          error: `Failed to get consumer information: ${error.message}`,
-        },
-        500
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to get consumer information: ${error.message}`
       );
     }
   }
@@ -0,0 +1,185 @@
+import { Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import {
+  ConsumerLimitsSchema,
+  ErrorResponseSchema,
+  QuotaSettingsSchema,
+  RateLimitSettingsSchema,
+  SuccessResponseSchema,
+} from "../schemas";
+import { getConsumerStubByName } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("consumerLimits");
+
+const limitsResponse = {
+  content: {
+    "application/json": {
+      schema: SuccessResponseSchema(ConsumerLimitsSchema),
+    },
+  },
+};
+
+const notFoundResponse = {
+  description: "Consumer not found",
+  content: {
+    "application/json": {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
+
+const internalErrorResponse = {
+  description: "Error response",
+  content: {
+    "application/json": {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
+
+export class ConsumerLimitsGet extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Get a consumer's rate limits and quotas",
+    request: {
+      params: z.object({
+        consumerName: Str({ description: "Consumer name" }),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "Returns the consumer's rate limits and quotas",
+        ...limitsResponse,
+      },
+      "404": notFoundResponse,
+      "500": internalErrorResponse,
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { consumerName } = data.params;
+
+    try {
+      const stub = await getConsumerStubByName(c.env, consumerName);
+      if (!stub || !(await stub.checkConsumerExists())) {
+        return errorResponse(
+          c,
+          "CONSUMER_NOT_FOUND",
+          `Consumer with name '${consumerName}' not found`
+        );
+      }
+
+      return c.json(
+        {
+          success: true,
+          result: await stub.getLimits(),
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error(
+        { error: error.message, consumerName },
+        "Failed to get consumer limits"
+      );
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to get consumer limits: ${error.message}`
+      );
+    }
+  }
+}
+
+export class ConsumerLimitsUpdate extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Set a consumer's rate limit and quota for an API",
+    description:
+      "Per-API limits apply on top of the consumer's shared bucket. Pass null to remove a setting, or omit it to leave it unchanged.",
+    request: {
+      params: z.object({
+        consumerName: Str({ description: "Consumer name" }),
+        api: Str({
+          description:
+            "The API name, e.g. getAgentResultV2, or checkBatch for POST /checks/batch",
+        }),
+      }),
+      body: {
+        content: {
+          "application/json": {
+            schema: z.object({
+              rateLimit: RateLimitSettingsSchema.nullable().optional(),
+              quota: QuotaSettingsSchema.nullable().optional(),
+            }),
+          },
+        },
+        required: true,
+      },
+    },
+    responses: {
+      "200": {
+        description: "Returns the updated rate limits and quotas",
+        ...limitsResponse,
+      },
+      "404": notFoundResponse,
+      "500": internalErrorResponse,
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { consumerName, api } = data.params;
+
+    try {
+      const stub = await getConsumerStubByName(c.env, consumerName);
+      if (!stub) {
+        return errorResponse(
+          c,
+          "CONSUMER_NOT_FOUND",
+          `Consumer with name '${consumerName}' not found`
+        );
+      }
+
+      const result = await stub.setAPILimits(api, data.body);
+      if (!result.success) {
+        return errorResponse(
+          c,
+          "INTERNAL_ERROR",
+          result.error?.message || "An unknown error occurred"
+        );
+      }
+
+      logger.info(
+        {
+          consumerName,
+          api,
+          ...data.body,
+          adminIdentity: c.get("adminIdentity"),
+        },
+        "Consumer limits set"
+      );
+      return c.json(
+        {
+          success: true,
+          result: result.limits,
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error(
+        { error: error.message, consumerName, api },
+        "Failed to set consumer limits"
+      );
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to set consumer limits: ${error.message}`
+      );
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Bool, OpenAPIRoute, Str } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
@@ -7,10 +7,13 @@ import {
   SuccessResponseSchema,
   ErrorResponseSchema,
 } from "../schemas";
+import { getConsumerStubByName } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("consumerList");
 
-export class ConsumerList extends OpenAPIRoute {
+export class ConsumerList extends ApiRoute {
   schema = {
     tags: ["Consumer"],
     summary: "List all registered consumers",
@@ -47,24 +50,19 @@ export class ConsumerList extends OpenAPIRoute {
       // Loop through each consumer and get details from their Durable Object
       for (const key of consumers.keys) {
         const consumerName = key.name.replace("consumer:", "");
-        const apiKey = await c.env.CONSUMER_KV.get(key.name);
 
-        if (apiKey) {
-          // Get the Durable Object stub
-          const id = c.env.CONSUMER.idFromName(apiKey);
-          const consumerStub = c.env.CONSUMER.get(id);
+        // Get the Durable Object stub
+        const consumerStub = await getConsumerStubByName(c.env, consumerName);
 
+        if (consumerStub) {
           // Get consumer details
           const name = await consumerStub.getName();
           if (!name) {
-            logger.warn({ apiKey }, "Consumer name not found");
+            logger.warn({ consumerName }, "Consumer name not found");
             continue;
           }
           if (consumerName !== name) {
-            logger.warn(
-              { apiKey, consumerName, name },
-              "Consumer name mismatch"
-            );
+            logger.warn({ consumerName, name }, "Consumer name mismatch");
             continue;
           }
           const counts = await consumerStub.getDetails();
@@ -81,12 +79,10 @@ export class ConsumerList extends OpenAPIRoute {
       };
     } catch (error: any) {
       logger.error({ error: error.message }, "Failed to list consumers");
-      return c.json(
-        {
-          success: false,
-          error: `Failed to list consumers: ${error.message}`,
-        },
-        500
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to list consumers: ${error.message}`
       );
     }
   }
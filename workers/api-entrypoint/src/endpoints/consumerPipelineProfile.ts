@@ -0,0 +1,111 @@
+import { Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger, PIPELINE_PROFILE_NAMES } from "@workspace/shared-utils";
+import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { getConsumerStubByName } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("consumerPipelineProfile");
+
+export class ConsumerPipelineProfileUpdate extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Set a consumer's pipeline profile",
+    description: `The pipeline profile sets the models, tool budgets and output languages of the consumer's checks, and whether checkers vote on them. Requests can only pick the profiles and agent models it permits. Profiles: ${PIPELINE_PROFILE_NAMES.join(
+      ", "
+    )}.`,
+    request: {
+      params: z.object({
+        consumerName: Str({ description: "Consumer name" }),
+      }),
+      body: {
+        content: {
+          "application/json": {
+            schema: z.object({
+              pipelineProfile: z
+                .enum(PIPELINE_PROFILE_NAMES)
+                .nullable()
+                .describe("The profile to use, or null for the default"),
+            }),
+          },
+        },
+        required: true,
+      },
+    },
+    responses: {
+      "200": {
+        description: "Returns the consumer's pipeline profile",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(
+              z.object({
+                pipelineProfile: Str().nullable(),
+              })
+            ),
+          },
+        },
+      },
+      "404": {
+        description: "Consumer not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { consumerName } = data.params;
+    const { pipelineProfile } = data.body;
+
+    try {
+      const stub = await getConsumerStubByName(c.env, consumerName);
+      if (!stub || !(await stub.setPipelineProfile(pipelineProfile))) {
+        return errorResponse(
+          c,
+          "CONSUMER_NOT_FOUND",
+          `Consumer with name '${consumerName}' not found`
+        );
+      }
+
+      logger.info(
+        {
+          consumerName,
+          pipelineProfile,
+          adminIdentity: c.get("adminIdentity"),
+        },
+        "Updated consumer pipeline profile"
+      );
+      return c.json(
+        {
+          success: true,
+          result: { pipelineProfile },
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error(
+        { error: error.message, consumerName },
+        "Failed to update consumer pipeline profile"
+      );
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to update consumer pipeline profile: ${error.message}`
+      );
+    }
+  }
+}
@@ -1,13 +1,16 @@
-import { Bool, OpenAPIRoute, Str } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
 import { Consumer } from "../durable-objects/consumer";
 import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { getAPIKeyPrefix, hashAPIKey } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("consumerPost");
 
-export class ConsumerPost extends OpenAPIRoute {
+export class ConsumerPost extends ApiRoute {
   schema = {
     tags: ["Consumer"],
     summary: "Create a new consumer with API key",
@@ -33,13 +36,17 @@ export class ConsumerPost extends OpenAPIRoute {
     },
     responses: {
       "200": {
-        description: "Returns the created consumer with API key",
+        description:
+          "Returns the created consumer with API key. The API key is only shown once, as only its hash is stored.",
         content: {
           "application/json": {
             schema: SuccessResponseSchema(
               z.object({
                 name: Str(),
                 apiKey: Str(),
+                apiKeyPrefix: Str({
+                  description: "The start of the API key, shown in listings",
+                }),
               })
             ),
           },
@@ -78,27 +85,30 @@ export class ConsumerPost extends OpenAPIRoute {
     } = data.body;
     const requestId = c.req.header("x-request-id") || crypto.randomUUID();
 
-    logger.info({ name, requestId }, "Processing consumer creation request");
+    logger.info(
+      { name, requestId, adminIdentity: c.get("adminIdentity") },
+      "Processing consumer creation request"
+    );
 
     try {
       // 1. Check if consumer already exists
       const consumerExists = await c.env.CONSUMER_KV.get(`consumer:${name}`);
 
       if (consumerExists) {
-        return c.json(
-          {
-            success: false,
-            error: `Consumer with name '${name}' already exists`,
-          },
-          400
+        return errorResponse(
+          c,
+          "CONFLICT",
+          `Consumer with name '${name}' already exists`
         );
       }
 
       // 2. Generate API key
       const apiKey = Consumer.generateAPIKey();
 
-      // 3. Create Durable Object from the API key
-      const id = c.env.CONSUMER.idFromName(apiKey);
+      // 3. Create Durable Object from the hash of the API key, so the key itself is never stored
+      const apiKeyHash = await hashAPIKey(c.env, apiKey);
+      const apiKeyPrefix = getAPIKeyPrefix(apiKey);
+      const id = c.env.CONSUMER.idFromName(apiKeyHash);
 
       const stub = c.env.CONSUMER.get(id);
 
@@ -106,19 +116,18 @@ export class ConsumerPost extends OpenAPIRoute {
       const result = await stub.createConsumer({
         name,
         allowedAPIs,
-        apiKey,
+        apiKeyHash,
+        apiKeyPrefix,
         millisecondsPerRequest,
         capacity,
         millisecondsForUpdates,
       });
 
       if (!result.success) {
-        return c.json(
-          {
-            success: false,
-            error: result.error?.message || "An unknown error occurred",
-          },
-          500
+        return errorResponse(
+          c,
+          "INTERNAL_ERROR",
+          result.error?.message || "An unknown error occurred"
         );
       }
 
@@ -128,18 +137,17 @@ export class ConsumerPost extends OpenAPIRoute {
           result: {
             name,
             apiKey,
+            apiKeyPrefix,
           },
         },
         200
       );
     } catch (error: any) {
       logger.error({ error: error.message, name }, "Failed to create consumer");
-      return c.json(
-        {
-          success: false,
-          error: `Failed to create consumer: ${error.message}`,
-        },
-        500
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to create consumer: ${error.message}`
       );
     }
   }
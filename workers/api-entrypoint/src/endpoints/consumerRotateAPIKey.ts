@@ -0,0 +1,219 @@
+import { DateTime, Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { getConsumerStubByName } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("consumerRotateAPIKey");
+
+const DEFAULT_GRACE_PERIOD_SECONDS = 24 * 60 * 60; // 1 day
+const MAX_GRACE_PERIOD_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+const consumerNameParams = z.object({
+  consumerName: Str({ description: "Consumer name" }),
+});
+
+const notFoundResponse = {
+  description: "Consumer not found",
+  content: {
+    "application/json": {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
+
+const internalErrorResponse = {
+  description: "Error response",
+  content: {
+    "application/json": {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
+
+export class ConsumerRotateAPIKey extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Rotate a consumer's API key",
+    description:
+      "Issues a new API key. The current key stays valid until the grace period ends. Usage counts, allowed APIs, rate limits and webhooks carry over.",
+    request: {
+      params: consumerNameParams,
+      body: {
+        content: {
+          "application/json": {
+            schema: z.object({
+              gracePeriodSeconds: z
+                .number()
+                .int()
+                .min(0)
+                .max(MAX_GRACE_PERIOD_SECONDS)
+                .optional()
+                .describe(
+                  "How long the current key stays valid. Defaults to 1 day, 0 revokes it immediately."
+                ),
+            }),
+          },
+        },
+        required: false,
+      },
+    },
+    responses: {
+      "200": {
+        description: "Returns the new API key",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(
+              z.object({
+                name: Str(),
+                apiKey: Str({ description: "The new API key" }),
+                previousApiKeyExpiresAt: DateTime({
+                  description: "When the previous API key stops working",
+                }).nullable(),
+              })
+            ),
+          },
+        },
+      },
+      "404": notFoundResponse,
+      "500": internalErrorResponse,
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { consumerName } = data.params;
+    const gracePeriodSeconds =
+      data.body?.gracePeriodSeconds ?? DEFAULT_GRACE_PERIOD_SECONDS;
+
+    try {
+      const stub = await getConsumerStubByName(c.env, consumerName);
+      if (!stub) {
+        return errorResponse(
+          c,
+          "CONSUMER_NOT_FOUND",
+          `Consumer with name '${consumerName}' not found`
+        );
+      }
+
+      const result = await stub.rotateAPIKey(gracePeriodSeconds);
+      if (!result.success) {
+        return errorResponse(
+          c,
+          "INTERNAL_ERROR",
+          result.error?.message || "An unknown error occurred"
+        );
+      }
+
+      logger.info(
+        {
+          consumerName,
+          gracePeriodSeconds,
+          adminIdentity: c.get("adminIdentity"),
+        },
+        "API key rotated"
+      );
+      return c.json(
+        {
+          success: true,
+          result: {
+            name: consumerName,
+            apiKey: result.apiKey,
+            previousApiKeyExpiresAt: result.previousApiKeyExpiresAt,
+          },
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error(
+        { error: error.message, consumerName },
+        "Failed to rotate API key"
+      );
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to rotate API key: ${error.message}`
+      );
+    }
+  }
+}
+
+export class ConsumerRevokePreviousAPIKey extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Revoke a consumer's previous API key",
+    description:
+      "Ends the grace period of the key replaced by the last rotation, so it stops working immediately.",
+    request: {
+      params: consumerNameParams,
+    },
+    responses: {
+      "200": {
+        description: "Previous API key revoked",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(
+              z.object({
+                message: Str(),
+              })
+            ),
+          },
+        },
+      },
+      "404": notFoundResponse,
+      "500": internalErrorResponse,
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { consumerName } = data.params;
+
+    try {
+      const stub = await getConsumerStubByName(c.env, consumerName);
+      if (!stub) {
+        return errorResponse(
+          c,
+          "CONSUMER_NOT_FOUND",
+          `Consumer with name '${consumerName}' not found`
+        );
+      }
+
+      const revoked = await stub.revokePreviousAPIKey();
+      if (!revoked) {
+        return errorResponse(
+          c,
+          "NOT_FOUND",
+          `Consumer '${consumerName}' has no previous API key`
+        );
+      }
+
+      logger.info(
+        { consumerName, adminIdentity: c.get("adminIdentity") },
+        "Previous API key revoked"
+      );
+      return c.json(
+        {
+          success: true,
+          result: {
+            message: `Previous API key of consumer ${consumerName} successfully revoked`,
+          },
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error(
+        { error: error.message, consumerName },
+        "Failed to revoke previous API key"
+      );
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to revoke previous API key: ${error.message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { DateTime, Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import {
+  SubmissionListOptions,
+  SubmissionWithCheck,
+} from "@workspace/shared-types";
+import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { getConsumerStub } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("consumerSubmissions");
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const ConsumerSubmissionSchema = z.object({
+  submissionId: Str(),
+  requestId: Str().nullable(),
+  timestamp: DateTime(),
+  type: z.enum(["text", "image"]),
+  text: Str().nullable(),
+  imageUrl: Str().nullable(),
+  caption: Str().nullable(),
+  checkStatus: z.enum(["pending", "completed", "error"]),
+  checkId: Str().nullable(),
+  generationStatus: Str({
+    description:
+      "The generation status of the check, e.g. pending, completed, error-agentLoop",
+  }).nullable(),
+  title: Str({ description: "The title of the check" }).nullable(),
+  slug: Str({ description: "The slug of the check" }).nullable(),
+});
+
+type SubmissionCursor = NonNullable<SubmissionListOptions["after"]>;
+
+// Cursors are opaque to clients, but hold the position of the last submission returned
+function encodeCursor(submission: SubmissionWithCheck) {
+  const cursor: SubmissionCursor = {
+    timestamp: submission.timestamp,
+    id: submission._id,
+  };
+  return btoa(JSON.stringify(cursor));
+}
+
+function decodeCursor(cursor: string): SubmissionCursor | null {
+  try {
+    const { timestamp, id } = JSON.parse(atob(cursor));
+    if (
+      typeof id !== "string" ||
+      !/^[0-9a-f]{24}$/i.test(id) ||
+      isNaN(new Date(timestamp).getTime())
+    ) {
+      return null;
+    }
+    return { timestamp: new Date(timestamp), id };
+  } catch {
+    return null;
+  }
+}
+
+function toConsumerSubmission(submission: SubmissionWithCheck) {
+  return {
+    submissionId: submission._id,
+    requestId: submission.requestId,
+    timestamp: submission.timestamp,
+    type: submission.type,
+    text: submission.text,
+    imageUrl: submission.imageUrl,
+    caption: submission.caption,
+    checkStatus: submission.checkStatus,
+    checkId: submission.checkId,
+    generationStatus: submission.check?.generationStatus ?? null,
+    title: submission.check?.title ?? null,
+    slug: submission.check?.slug ?? null,
+  };
+}
+
+export class ConsumerSubmissionList extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "List your submissions",
+    description:
+      "Returns the submissions made with your API key, newest first, with the status of each linked check. Pass nextCursor as cursor to get the next page.",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: z.object({
+        "x-api-key": z
+          .string({
+            required_error: "API key is required for authentication",
+          })
+          .describe("API key for authentication"),
+      }),
+      query: z.object({
+        limit: z.coerce
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_LIMIT)
+          .optional()
+          .default(DEFAULT_LIMIT)
+          .describe("The maximum number of submissions to return"),
+        cursor: Str({
+          description: "The nextCursor of the previous page",
+        }).optional(),
+        checkStatus: z
+          .enum(["pending", "completed", "error"])
+          .optional()
+          .describe("Only return submissions with this status"),
+        type: z
+          .enum(["text", "image"])
+          .optional()
+          .describe("Only return submissions of this type"),
+        from: DateTime({
+          description: "Only return submissions made at or after this time",
+        }).optional(),
+        to: DateTime({
+          description: "Only return submissions made at or before this time",
+        }).optional(),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "Returns a page of submissions",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(
+              z.object({
+                submissions: z.array(ConsumerSubmissionSchema),
+                nextCursor: Str({
+                  description: "The cursor of the next page, if there is one",
+                }).nullable(),
+              })
+            ),
+          },
+        },
+      },
+      "400": {
+        description: "Invalid cursor",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      "401": {
+        description: "Unauthorized - Invalid API key",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const { limit, cursor, checkStatus, type, from, to } = data.query;
+
+      const stub = await getConsumerStub(c.env, data.headers["x-api-key"]);
+      const initialized = stub !== null && (await stub.checkConsumerExists());
+      if (!stub || !initialized) {
+        return errorResponse(c, "UNAUTHORIZED", "Invalid API key");
+      }
+
+      const after = cursor ? decodeCursor(cursor) : undefined;
+      if (after === null) {
+        return errorResponse(c, "INVALID_REQUEST", "Invalid cursor");
+      }
+
+      // The consumer name comes from the API key, so only their own submissions are listed
+      const consumerName = (await stub.getName()) as string;
+      const options: SubmissionListOptions = {
+        // One extra submission shows whether there is a next page
+        limit: limit + 1,
+        checkStatus,
+        type,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        after,
+      };
+      const result = await c.env.DATABASE_SERVICE.findSubmissionsByConsumer(
+        consumerName,
+        options
+      );
+      if (!result.success) {
+        throw new Error(result.error || "Failed to find submissions");
+      }
+
+      const submissions = result.data as SubmissionWithCheck[];
+      const page = submissions.slice(0, limit);
+      const nextCursor =
+        submissions.length > limit ? encodeCursor(page[page.length - 1]) : null;
+
+      logger.info(
+        { consumerName, count: page.length, hasNextPage: !!nextCursor },
+        "Listed consumer submissions"
+      );
+      return c.json(
+        {
+          success: true,
+          result: {
+            submissions: page.map(toConsumerSubmission),
+            nextCursor,
+          },
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error({ error: error.message }, "Failed to list submissions");
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to list submissions: ${error.message}`
+      );
+    }
+  }
+}
@@ -1,12 +1,15 @@
-import { OpenAPIRoute, Str } from "chanfana";
+import { Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
 import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { getConsumerStub, getConsumerStubByName } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("consumerUpdateAPIs");
 
-export class ConsumerUpdateAPIs extends OpenAPIRoute {
+export class ConsumerUpdateAPIs extends ApiRoute {
   schema = {
     tags: ["Consumer"],
     summary: "Update allowed APIs for consumer by API key or name",
@@ -83,46 +86,36 @@ export class ConsumerUpdateAPIs extends OpenAPIRoute {
       const consumerName = c.req.param("consumerName");
       const requestId = c.req.header("x-request-id") || crypto.randomUUID();
 
-      logger.info({ consumerName, hasApiKey: !!apiKey, requestId }, "Processing consumer API update request");
+      logger.info({ consumerName, hasApiKey: !!apiKey, requestId, adminIdentity: c.get("adminIdentity") }, "Processing consumer API update request");
 
       // Case 1: Neither API key nor name provided
       if (!apiKey && !consumerName) {
-        return c.json(
-          {
-            success: false,
-            error: "Either API key or consumer name is required",
-          },
-          400
+        return errorResponse(
+          c,
+          "INVALID_REQUEST",
+          "Either API key or consumer name is required"
         );
       }
 
       // Case 2: Both API key and name provided
       if (apiKey && consumerName) {
         // Get the Durable Object stub
-        const id = c.env.CONSUMER.idFromName(apiKey);
-        const stub = c.env.CONSUMER.get(id);
+        const stub = await getConsumerStub(c.env, apiKey);
 
         // Check if the consumer exists
-        const initialized = await stub.checkConsumerExists();
-        if (!initialized) {
-          return c.json(
-            {
-              success: false,
-              error: "Invalid API key",
-            },
-            401
-          );
+        const initialized =
+          stub !== null && (await stub.checkConsumerExists());
+        if (!stub || !initialized) {
+          return errorResponse(c, "UNAUTHORIZED", "Invalid API key");
         }
 
         // Get consumer details to verify name matches
         const name = await stub.getName();
         if (name !== consumerName) {
-          return c.json(
-            {
-              success: false,
-              error: "API key does not match the provided consumer name",
-            },
-            401
+          return errorResponse(
+            c,
+            "UNAUTHORIZED",
+            "API key does not match the provided consumer name"
           );
         }
 
@@ -130,12 +123,10 @@ export class ConsumerUpdateAPIs extends OpenAPIRoute {
         const result = await stub.updateAllowedAPIs(allowedAPIs);
 
         if (!result.success) {
-          return c.json(
-            {
-              success: false,
-              error: result.error?.message || "An unknown error occurred",
-            },
-            500
+          return errorResponse(
+            c,
+            "INTERNAL_ERROR",
+            result.error?.message || "An unknown error occurred"
           );
         }
 
@@ -153,19 +144,13 @@ export class ConsumerUpdateAPIs extends OpenAPIRoute {
       // Case 3: Only API key provided
       if (apiKey && !consumerName) {
         // Get the Durable Object stub
-        const id = c.env.CONSUMER.idFromName(apiKey);
-        const stub = c.env.CONSUMER.get(id);
+        const stub = await getConsumerStub(c.env, apiKey);
 
         // Check if the consumer exists
-        const initialized = await stub.checkConsumerExists();
-        if (!initialized) {
-          return c.json(
-            {
-              success: false,
-              error: "Invalid API key",
-            },
-            401
-          );
+        const initialized =
+          stub !== null && (await stub.checkConsumerExists());
+        if (!stub || !initialized) {
+          return errorResponse(c, "UNAUTHORIZED", "Invalid API key");
         }
 
         // Get consumer details to get the name
@@ -176,12 +161,10 @@ export class ConsumerUpdateAPIs extends OpenAPIRoute {
         const result = await stub.updateAllowedAPIs(allowedAPIs);
 
         if (!result.success) {
-          return c.json(
-            {
-              success: false,
-              error: result.error?.message || "An unknown error occurred",
-            },
-            500
+          return errorResponse(
+            c,
+            "INTERNAL_ERROR",
+            result.error?.message || "An unknown error occurred"
           );
         }
 
@@ -198,35 +181,25 @@ export class ConsumerUpdateAPIs extends OpenAPIRoute {
 
       // Case 4: Only name provided
       if (!apiKey && consumerName) {
-        // Get API key from KV
-        const consumerKey = await c.env.CONSUMER_KV.get(
-          `consumer:${consumerName}`
-        );
-
-        if (!consumerKey) {
-          return c.json(
-            {
-              success: false,
-              error: `Consumer with name '${consumerName}' not found`,
-            },
-            404
+        // Get the Durable Object stub from the consumer's API key in KV
+        const stub = await getConsumerStubByName(c.env, consumerName);
+
+        if (!stub) {
+          return errorResponse(
+            c,
+            "CONSUMER_NOT_FOUND",
+            `Consumer with name '${consumerName}' not found`
           );
         }
 
-        // Get the Durable Object stub
-        const id = c.env.CONSUMER.idFromName(consumerKey);
-        const stub = c.env.CONSUMER.get(id);
-
         // Update allowed APIs
         const result = await stub.updateAllowedAPIs(allowedAPIs);
 
         if (!result.success) {
-          return c.json(
-            {
-              success: false,
-              error: result.error?.message || "An unknown error occurred",
-            },
-            500
+          return errorResponse(
+            c,
+            "INTERNAL_ERROR",
+            result.error?.message || "An unknown error occurred"
           );
         }
 
@@ -242,12 +215,10 @@ export class ConsumerUpdateAPIs extends OpenAPIRoute {
       }
     } catch (error: any) {
       logger.error({ error: error.message }, "Failed to update consumer APIs");
-      return c.json(
-        {
-          success: false,
-          error: `Failed to update consumer APIs: ${error.message}`,
-        },
-        500
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to update consumer APIs: ${error.message}`
       );
     }
   }
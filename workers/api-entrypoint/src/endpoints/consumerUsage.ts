@@ -0,0 +1,251 @@
+import { Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import {
+  DailyUsageSchema,
+  ErrorResponseSchema,
+  SuccessResponseSchema,
+} from "../schemas";
+import { getConsumerStub, getConsumerStubByName } from "../utils/consumer";
+import {
+  Consumer,
+  DailyUsage,
+  LATENCY_BUCKETS,
+} from "../durable-objects/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("consumerUsage");
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const usageQuery = z.object({
+  from: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a date in YYYY-MM-DD format")
+    .optional()
+    .describe("First day to include (UTC). Defaults to 30 days before 'to'."),
+  to: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a date in YYYY-MM-DD format")
+    .optional()
+    .describe("Last day to include (UTC). Defaults to today."),
+  format: z
+    .enum(["json", "csv"])
+    .optional()
+    .default("json")
+    .describe("Response format"),
+});
+
+const usageResponses = {
+  "200": {
+    description: "Returns the daily usage of each API, sorted by date",
+    content: {
+      "application/json": {
+        schema: SuccessResponseSchema(z.array(DailyUsageSchema)),
+      },
+      "text/csv": {
+        schema: Str({
+          description:
+            "One row per day and API, with a column per latency bucket",
+        }),
+      },
+    },
+  },
+  "400": {
+    description: "Invalid date range",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+  "500": {
+    description: "Error response",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+};
+
+function toCsv(usage: DailyUsage[]) {
+  const buckets = LATENCY_BUCKETS.map(([bucket]) => bucket);
+  const header = [
+    "date",
+    "api",
+    "calls",
+    "clientErrors",
+    "serverErrors",
+    ...buckets.map((bucket) => `latency_${bucket}`),
+  ];
+  const rows = usage.map((day) => [
+    day.date,
+    day.api,
+    day.calls,
+    day.clientErrors,
+    day.serverErrors,
+    ...buckets.map((bucket) => day.latency[bucket]),
+  ]);
+  return [header, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
+
+/**
+ * Responds with a consumer's usage between the dates in the query,
+ * or a 400 if the range is invalid or longer than MAX_RANGE_DAYS
+ */
+async function usageResponse(
+  c: Context<{ Bindings: Env }>,
+  stub: DurableObjectStub<Consumer>,
+  consumerName: string,
+  query: z.infer<typeof usageQuery>
+) {
+  const to = query.to ?? new Date().toISOString().slice(0, 10);
+  const from =
+    query.from ??
+    new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * MILLISECONDS_PER_DAY)
+      .toISOString()
+      .slice(0, 10);
+
+  const rangeDays =
+    (Date.parse(to) - Date.parse(from)) / MILLISECONDS_PER_DAY + 1;
+  if (Number.isNaN(rangeDays) || rangeDays < 1) {
+    return errorResponse(
+      c,
+      "INVALID_REQUEST",
+      "'from' must be a valid date on or before 'to'"
+    );
+  }
+  if (rangeDays > MAX_RANGE_DAYS) {
+    return errorResponse(
+      c,
+      "INVALID_REQUEST",
+      `Date range cannot be longer than ${MAX_RANGE_DAYS} days`
+    );
+  }
+
+  const usage = await stub.getUsage(from, to);
+  if (query.format === "csv") {
+    return c.body(toCsv(usage), 200, {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="usage-${consumerName}-${from}-${to}.csv"`,
+    });
+  }
+  return c.json(
+    {
+      success: true,
+      result: usage,
+    },
+    200
+  );
+}
+
+export class ConsumerUsageGet extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Get your daily API usage",
+    description:
+      "Returns the daily calls, 4xx and 5xx responses and latency distribution of each API over a date range of up to 366 days.",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: z.object({
+        "x-api-key": z
+          .string({
+            required_error: "API key is required for authentication",
+          })
+          .describe("API key for authentication"),
+      }),
+      query: usageQuery,
+    },
+    responses: {
+      ...usageResponses,
+      "401": {
+        description: "Unauthorized - Invalid API key",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const stub = await getConsumerStub(c.env, data.headers["x-api-key"]);
+      const initialized = stub !== null && (await stub.checkConsumerExists());
+      if (!stub || !initialized) {
+        return errorResponse(c, "UNAUTHORIZED", "Invalid API key");
+      }
+
+      const consumerName = (await stub.getName()) as string;
+      return await usageResponse(c, stub, consumerName, data.query);
+    } catch (error: any) {
+      logger.error({ error: error.message }, "Failed to get usage");
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to get usage: ${error.message}`
+      );
+    }
+  }
+}
+
+export class ConsumerUsageAdminGet extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Get a consumer's daily API usage",
+    description:
+      "Returns the daily calls, 4xx and 5xx responses and latency distribution of each API over a date range of up to 366 days.",
+    request: {
+      params: z.object({
+        consumerName: Str({ description: "Consumer name" }),
+      }),
+      query: usageQuery,
+    },
+    responses: {
+      ...usageResponses,
+      "404": {
+        description: "Consumer not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { consumerName } = data.params;
+
+    try {
+      const stub = await getConsumerStubByName(c.env, consumerName);
+      if (!stub || !(await stub.checkConsumerExists())) {
+        return errorResponse(
+          c,
+          "CONSUMER_NOT_FOUND",
+          `Consumer with name '${consumerName}' not found`
+        );
+      }
+
+      return await usageResponse(c, stub, consumerName, data.query);
+    } catch (error: any) {
+      logger.error(
+        { error: error.message, consumerName },
+        "Failed to get usage"
+      );
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to get usage: ${error.message}`
+      );
+    }
+  }
+}
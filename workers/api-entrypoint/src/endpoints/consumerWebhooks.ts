@@ -0,0 +1,301 @@
+import { Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import {
+  ErrorResponseSchema,
+  SuccessResponseSchema,
+  WebhookEventTypeSchema,
+  WebhookSchema,
+} from "../schemas";
+import { getConsumerStub } from "../utils/consumer";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("consumerWebhooks");
+
+const apiKeyHeaders = z.object({
+  "x-api-key": z
+    .string({
+      required_error: "API key is required for authentication",
+    })
+    .describe("API key for authentication"),
+});
+
+const errorResponses = {
+  "401": {
+    description: "Unauthorized - Invalid API key",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+  "500": {
+    description: "Error response",
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  },
+};
+
+// Gets the Consumer stub for the API key in the request, or null if the consumer does not exist
+async function getRequestConsumerStub(c: Context<{ Bindings: Env }>) {
+  const apiKey = c.req.header("x-api-key");
+  if (!apiKey) {
+    return null;
+  }
+  const stub = await getConsumerStub(c.env, apiKey);
+  const initialized = stub !== null && (await stub.checkConsumerExists());
+  return initialized ? stub : null;
+}
+
+function invalidApiKey(c: Context) {
+  return errorResponse(c, "UNAUTHORIZED", "Invalid API key");
+}
+
+function internalError(c: Context, error: any, message: string) {
+  logger.error({ error: error.message }, message);
+  return errorResponse(c, "INTERNAL_ERROR", `${message}: ${error.message}`);
+}
+
+export class WebhookCreate extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Register a webhook",
+    description:
+      "Registers a URL that receives signed POST requests for the chosen check events, for checks submitted by this consumer. The signing secret is only returned when the consumer's first webhook is created. Each delivery has an X-Checkmate-Signature header of the form t=<unix timestamp>,v1=<hex HMAC-SHA256 of '<timestamp>.<body>'>.",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: apiKeyHeaders,
+      body: {
+        content: {
+          "application/json": {
+            schema: z.object({
+              url: z.string().url().describe("The https URL to deliver to"),
+              events: z
+                .array(WebhookEventTypeSchema)
+                .min(1)
+                .describe("The check events to subscribe to"),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      "201": {
+        description: "Webhook registered",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(
+              z.object({
+                webhook: WebhookSchema,
+                secret: Str({
+                  description:
+                    "The webhook signing secret, only returned when first created",
+                }).nullable(),
+              })
+            ),
+          },
+        },
+      },
+      "400": {
+        description: "Invalid webhook",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      ...errorResponses,
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const stub = await getRequestConsumerStub(c);
+      if (!stub) {
+        return invalidApiKey(c);
+      }
+
+      const result = await stub.addWebhook(data.body.url, data.body.events);
+      if (!result.success) {
+        return errorResponse(
+          c,
+          "INVALID_REQUEST",
+          result.error?.message || "Invalid webhook"
+        );
+      }
+
+      return c.json(
+        {
+          success: true,
+          result: {
+            webhook: result.webhook,
+            secret: result.secret,
+          },
+        },
+        201
+      );
+    } catch (error: any) {
+      return internalError(c, error, "Failed to register webhook");
+    }
+  }
+}
+
+export class WebhookList extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "List webhooks",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: apiKeyHeaders,
+    },
+    responses: {
+      "200": {
+        description: "Returns the consumer's webhooks",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(z.array(WebhookSchema)),
+          },
+        },
+      },
+      ...errorResponses,
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    try {
+      const stub = await getRequestConsumerStub(c);
+      if (!stub) {
+        return invalidApiKey(c);
+      }
+
+      return c.json(
+        {
+          success: true,
+          result: await stub.getWebhooks(),
+        },
+        200
+      );
+    } catch (error: any) {
+      return internalError(c, error, "Failed to list webhooks");
+    }
+  }
+}
+
+export class WebhookDelete extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Delete a webhook",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: apiKeyHeaders,
+      params: z.object({
+        id: z.string().describe("The ID of the webhook to delete"),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "Webhook deleted",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(
+              z.object({
+                message: Str(),
+              })
+            ),
+          },
+        },
+      },
+      "404": {
+        description: "Webhook not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      ...errorResponses,
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    try {
+      const data = await this.getValidatedData<typeof this.schema>();
+      const stub = await getRequestConsumerStub(c);
+      if (!stub) {
+        return invalidApiKey(c);
+      }
+
+      const deleted = await stub.deleteWebhook(data.params.id);
+      if (!deleted) {
+        return errorResponse(c, "WEBHOOK_NOT_FOUND", "Webhook not found");
+      }
+
+      return c.json(
+        {
+          success: true,
+          result: {
+            message: `Webhook ${data.params.id} successfully deleted`,
+          },
+        },
+        200
+      );
+    } catch (error: any) {
+      return internalError(c, error, "Failed to delete webhook");
+    }
+  }
+}
+
+export class WebhookSecretRotate extends ApiRoute {
+  schema = {
+    tags: ["Consumer"],
+    summary: "Rotate the webhook signing secret",
+    description:
+      "Generates a new signing secret for all of the consumer's webhooks. Deliveries are signed with the new secret immediately.",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: apiKeyHeaders,
+    },
+    responses: {
+      "200": {
+        description: "Returns the new signing secret",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(
+              z.object({
+                secret: Str({ description: "The new webhook signing secret" }),
+              })
+            ),
+          },
+        },
+      },
+      ...errorResponses,
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    try {
+      const stub = await getRequestConsumerStub(c);
+      if (!stub) {
+        return invalidApiKey(c);
+      }
+
+      return c.json(
+        {
+          success: true,
+          result: {
+            secret: await stub.rotateWebhookSecret(),
+          },
+        },
+        200
+      );
+    } catch (error: any) {
+      return internalError(c, error, "Failed to rotate webhook secret");
+    }
+  }
+}
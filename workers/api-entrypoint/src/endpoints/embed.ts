@@ -1,13 +1,16 @@
-import { Bool, OpenAPIRoute, Str } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
 import { Embedding } from "../types";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
 import { EmbedRequest, EmbedResponse } from "@workspace/shared-types";
+import { ConsumerAuthErrorResponses, ErrorResponseSchema } from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("embeddingFetch");
 
-export class Embed extends OpenAPIRoute {
+export class Embed extends ApiRoute {
   schema = {
     tags: ["Embedding"],
     summary: "Get the embedding of a text",
@@ -45,14 +48,12 @@ export class Embed extends OpenAPIRoute {
           },
         },
       },
+      ...ConsumerAuthErrorResponses,
       "500": {
         description: "Error response",
         content: {
           "application/json": {
-            schema: z.object({
-              success: Bool(),
-              error: Str(),
-            }),
+            schema: ErrorResponseSchema,
           },
         },
       },
@@ -86,10 +87,11 @@ export class Embed extends OpenAPIRoute {
         },
       };
     } catch (error: any) {
-      return {
-        success: false,
-        error: `Failed to generate embedding: ${error.message}`,
-      };
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to generate embedding: ${error.message}`
+      );
     }
   }
 }
@@ -1,28 +1,280 @@
-import { OpenAPIRoute } from "chanfana";
+import { Num, Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import { HealthCheckResult } from "@workspace/shared-types";
 import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { ApiRoute } from "./apiRoute";
 
-export class HealthCheck extends OpenAPIRoute {
+const logger = createLogger("healthCheck");
+
+// A dependency that takes longer than this to answer is reported as down
+const PROBE_TIMEOUT_MS = 3000;
+// A blacklist older than this has probably stopped being uploaded
+const BLACKLIST_MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000; // 3 days
+// How long GET /health reuses probe results, so polling it does not load every dependency
+const HEALTH_CACHE_TTL_MS = 30 * 1000;
+// Name of the Consumer Durable Object read by the health check. No consumer is ever created under it.
+const HEALTH_CHECK_OBJECT_NAME = "health-check";
+
+const DEPENDENCY_STATUSES = ["ok", "degraded", "down"] as const;
+type DependencyStatus = (typeof DEPENDENCY_STATUSES)[number];
+
+const DEPENDENCIES = [
+  "AI_CHECKER_SERVICE",
+  "DATABASE_SERVICE",
+  "EMBEDDER_SERVICE",
+  "TRIVIAL_FILTER_SERVICE",
+  "BLACKLIST_SERVICE",
+  "CONSUMER",
+  "CONSUMER_KV",
+] as const;
+type Dependency = (typeof DEPENDENCIES)[number];
+
+// Without these, no check can be made, so the API is down rather than degraded
+const CRITICAL_DEPENDENCIES: Dependency[] = [
+  "AI_CHECKER_SERVICE",
+  "DATABASE_SERVICE",
+  "CONSUMER",
+  "CONSUMER_KV",
+];
+
+interface DependencyHealth {
+  status: DependencyStatus;
+  latencyMs: number;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+type ProbeResult = {
+  status?: DependencyStatus;
+  details?: Record<string, unknown>;
+};
+
+// Throws if a service's healthCheck method reports a failure
+async function checkServiceHealth(service: {
+  healthCheck(): Promise<HealthCheckResult>;
+}): Promise<ProbeResult> {
+  const result = await service.healthCheck();
+  if (!result.success) {
+    throw new Error(result.error.message);
+  }
+  return { details: result.details };
+}
+
+// Reports the blacklist as degraded when none has been uploaded or it is stale
+async function checkBlacklist(env: Env): Promise<ProbeResult> {
+  const result = await env.BLACKLIST_SERVICE.getBlacklistStatus();
+  if ("error" in result) {
+    if (result.error === "No blacklist configured") {
+      return { status: "degraded", details: { error: result.error } };
+    }
+    throw new Error(result.error);
+  }
+  const ageMs = Date.now() - new Date(result.updatedAt).getTime();
+  return {
+    status: ageMs > BLACKLIST_MAX_AGE_MS ? "degraded" : "ok",
+    details: {
+      version: result.version,
+      updatedAt: result.updatedAt,
+      ageSeconds: Math.round(ageMs / 1000),
+      count: result.count,
+    },
+  };
+}
+
+const PROBES: Record<Dependency, (env: Env) => Promise<ProbeResult>> = {
+  AI_CHECKER_SERVICE: (env) => checkServiceHealth(env.AI_CHECKER_SERVICE),
+  DATABASE_SERVICE: async (env) => {
+    const result = await env.DATABASE_SERVICE.ping();
+    if (!result.success) {
+      throw new Error(result.error || "Failed to ping MongoDB");
+    }
+    return {};
+  },
+  EMBEDDER_SERVICE: (env) => checkServiceHealth(env.EMBEDDER_SERVICE),
+  TRIVIAL_FILTER_SERVICE: (env) =>
+    checkServiceHealth(env.TRIVIAL_FILTER_SERVICE),
+  BLACKLIST_SERVICE: checkBlacklist,
+  CONSUMER: async (env) => {
+    const stub = env.CONSUMER.get(
+      env.CONSUMER.idFromName(HEALTH_CHECK_OBJECT_NAME)
+    );
+    await stub.checkConsumerExists();
+    return {};
+  },
+  CONSUMER_KV: async (env) => {
+    await env.CONSUMER_KV.get(`consumer:${HEALTH_CHECK_OBJECT_NAME}`);
+    return {};
+  },
+};
+
+async function probeDependency(
+  env: Env,
+  dependency: Dependency
+): Promise<DependencyHealth> {
+  const startTime = Date.now();
+  try {
+    const result = await Promise.race([
+      PROBES[dependency](env),
+      new Promise<never>((_, reject) =>
+        setTimeout(
+          () => reject(new Error(`Timed out after ${PROBE_TIMEOUT_MS}ms`)),
+          PROBE_TIMEOUT_MS
+        )
+      ),
+    ]);
+    return {
+      status: result.status ?? "ok",
+      latencyMs: Date.now() - startTime,
+      details: result.details,
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    logger.error({ dependency, errorMessage }, "Dependency is down");
+    return {
+      status: "down",
+      latencyMs: Date.now() - startTime,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Probes every dependency in parallel. The API is down if a critical
+ * dependency is down, and degraded if any other dependency is not ok.
+ */
+async function runHealthChecks(env: Env) {
+  const results = await Promise.all(
+    DEPENDENCIES.map((dependency) => probeDependency(env, dependency))
+  );
+  const dependencies = Object.fromEntries(
+    DEPENDENCIES.map((dependency, i) => [dependency, results[i]])
+  ) as Record<Dependency, DependencyHealth>;
+
+  let status: "healthy" | "degraded" | "down" = "healthy";
+  if (
+    CRITICAL_DEPENDENCIES.some(
+      (dependency) => dependencies[dependency].status === "down"
+    )
+  ) {
+    status = "down";
+  } else if (results.some((result) => result.status !== "ok")) {
+    status = "degraded";
+  }
+  return { status, dependencies };
+}
+
+// Results of the last public health check in this isolate
+let cachedHealthChecks: {
+  expiresAt: number;
+  result: Awaited<ReturnType<typeof runHealthChecks>>;
+} | null = null;
+
+async function getCachedHealthChecks(env: Env) {
+  if (!cachedHealthChecks || cachedHealthChecks.expiresAt <= Date.now()) {
+    cachedHealthChecks = {
+      expiresAt: Date.now() + HEALTH_CACHE_TTL_MS,
+      result: await runHealthChecks(env),
+    };
+  }
+  return cachedHealthChecks.result;
+}
+
+function healthResponseSchema(dependencySchema: z.ZodTypeAny) {
+  return SuccessResponseSchema(
+    z.object({
+      status: z
+        .enum(["healthy", "degraded", "down"])
+        .describe(
+          "down if a dependency needed for every check is down, degraded if any other dependency is not ok"
+        ),
+      timestamp: Num({ description: "Current timestamp" }),
+      dependencies: z
+        .record(dependencySchema)
+        .describe("The health of each dependency, by binding name"),
+    })
+  );
+}
+
+const DependencyHealthSchema = z.object({
+  status: z.enum(DEPENDENCY_STATUSES),
+  latencyMs: Num({ description: "How long the dependency took to answer" }),
+});
+
+const DependencyHealthDetailsSchema = DependencyHealthSchema.extend({
+  details: z
+    .record(z.any())
+    .optional()
+    .describe("e.g. the version and age of the blacklist"),
+  error: Str({ description: "Why the dependency is down" }).optional(),
+});
+
+function healthResponses(dependencySchema: z.ZodTypeAny) {
+  const schema = healthResponseSchema(dependencySchema);
+  return {
+    "200": {
+      description: "The API is healthy or degraded",
+      content: {
+        "application/json": {
+          schema,
+        },
+      },
+    },
+    "503": {
+      description: "The API is down",
+      content: {
+        "application/json": {
+          schema,
+        },
+      },
+    },
+  };
+}
+
+export class HealthCheck extends ApiRoute {
   schema = {
     tags: ["System"],
     summary: "Health check endpoint",
-    responses: {
-      "200": {
-        description: "System is healthy",
-        content: {
-          "application/json": {
-            schema: SuccessResponseSchema(
-              z.object({
-                status: z.string({ description: "Health status" }),
-                timestamp: z.number({ description: "Current timestamp" }),
-              })
-            ),
-          },
+    description:
+      "Probes every dependency of the API, reusing the results for 30 seconds. Returns 503 when the API is down, so uptime monitors can alert on the status code alone.",
+    responses: healthResponses(DependencyHealthSchema),
+  };
+
+  async handle(c: Context) {
+    const { status, dependencies } = await getCachedHealthChecks(c.env);
+    // Errors and details stay out of the public response
+    const summary = Object.fromEntries(
+      Object.entries(dependencies).map(([dependency, health]) => [
+        dependency,
+        { status: health.status, latencyMs: health.latencyMs },
+      ])
+    );
+    return c.json(
+      {
+        success: true,
+        result: {
+          status,
+          timestamp: Date.now(),
+          dependencies: summary,
         },
       },
-      "500": {
-        description: "System is unhealthy",
+      status === "down" ? 503 : 200
+    );
+  }
+}
+
+export class HealthCheckDetails extends ApiRoute {
+  schema = {
+    tags: ["System"],
+    summary: "Health check with details, for admins",
+    description:
+      "Same as GET /health, with the error of each dependency that is down and details such as the age of the blacklist.",
+    responses: {
+      ...healthResponses(DependencyHealthDetailsSchema),
+      "401": {
+        description: "Unauthorized",
         content: {
           "application/json": {
             schema: ErrorResponseSchema,
@@ -32,29 +284,18 @@ export class HealthCheck extends OpenAPIRoute {
     },
   };
 
-  async handle(c: Context<{ Bindings: Env }>) {
-    try {
-      // Perform any health checks here
-      // For example, check if KV and Durable Objects are accessible
-
-      return c.json(
-        {
-          success: true,
-          result: {
-            status: "healthy",
-            timestamp: Date.now(),
-          },
+  async handle(c: Context) {
+    const { status, dependencies } = await runHealthChecks(c.env);
+    return c.json(
+      {
+        success: true,
+        result: {
+          status,
+          timestamp: Date.now(),
+          dependencies,
         },
-        200
-      );
-    } catch (error: any) {
-      return c.json(
-        {
-          success: false,
-          error: `System is unhealthy: ${error.message}`,
-        },
-        500
-      );
-    }
+      },
+      status === "down" ? 503 : 200
+    );
   }
 }
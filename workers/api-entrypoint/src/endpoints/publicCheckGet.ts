@@ -0,0 +1,164 @@
+import { Bool, DateTime, Str } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import { Check, CommunityNote, HumanNote } from "@workspace/shared-types";
+import { ErrorResponseSchema, SuccessResponseSchema } from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("publicCheckGet");
+
+// Approved checks rarely change, so browsers and the edge can cache them,
+// though not for long as they disappear once unapproved or erased
+const FOUND_CACHE_CONTROL = "public, max-age=60, s-maxage=300";
+// Short enough that a check shows up soon after it is approved
+const NOT_FOUND_CACHE_CONTROL = "public, max-age=60, s-maxage=60";
+
+const PublicNoteSchema = z.object({
+  en: Str().nullable(),
+  cn: Str().nullable(),
+  ms: Str().nullable().optional(),
+  id: Str().nullable().optional(),
+  ta: Str().nullable().optional(),
+  links: z.array(Str()).nullable(),
+  machineTranslated: z
+    .array(z.enum(["cn", "ms", "id", "ta"]))
+    .nullable()
+    .describe(
+      "The languages of a human note that were translated automatically. Null for community notes, which are machine-generated in every language."
+    ),
+  timestamp: DateTime(),
+});
+
+const PublicCheckSchema = z.object({
+  title: Str(),
+  slug: Str(),
+  type: z.enum(["text", "image"]),
+  note: PublicNoteSchema.nullable(),
+  noteSource: z
+    .enum(["human", "community"])
+    .nullable()
+    .describe(
+      "Whether the note was written by a human checker or generated by the community note pipeline"
+    ),
+  crowdsourcedCategory: Str().nullable(),
+  isControversial: Bool(),
+  isHumanAssessed: Bool(),
+  timestamp: DateTime(),
+});
+
+// Only the note itself is public, not who updated it
+function toPublicNote(note: HumanNote | CommunityNote) {
+  return {
+    en: note.en,
+    cn: note.cn,
+    ms: note.ms,
+    id: note.id,
+    ta: note.ta,
+    links: note.links,
+    machineTranslated:
+      "updatedBy" in note ? note.machineTranslated ?? [] : null,
+    timestamp: note.timestamp,
+  };
+}
+
+/**
+ * Builds the public view of a check. The submitted text, image and caption
+ * can contain personal details, so they are never included.
+ */
+function toPublicCheck(check: Check) {
+  const humanNote = check.humanResponse?.en ? check.humanResponse : null;
+  const communityNote = check.shortformResponse?.en
+    ? check.shortformResponse
+    : null;
+  return {
+    title: check.title,
+    slug: check.slug,
+    type: check.type,
+    note: humanNote
+      ? toPublicNote(humanNote)
+      : communityNote
+      ? toPublicNote(communityNote)
+      : null,
+    noteSource: humanNote ? "human" : communityNote ? "community" : null,
+    crowdsourcedCategory: check.crowdsourcedCategory,
+    isControversial: check.isControversial,
+    isHumanAssessed: check.isHumanAssessed,
+    timestamp: check.timestamp,
+  };
+}
+
+export class PublicCheckGet extends ApiRoute {
+  schema = {
+    tags: ["Public"],
+    summary: "Get a published check by its slug",
+    description:
+      "Returns a check approved for publishing, without the submitted text, image or caption. Unknown and unpublished checks both return 404.",
+    request: {
+      params: z.object({
+        slug: Str({ description: "The slug of the check" }),
+      }),
+    },
+    responses: {
+      "200": {
+        description: "Returns the published check",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(PublicCheckSchema),
+          },
+        },
+      },
+      "404": {
+        description: "Check not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context<{ Bindings: Env }>) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { slug } = data.params;
+
+    try {
+      const result = await c.env.DATABASE_SERVICE.findPublishedCheckBySlug(
+        slug
+      );
+      const check = result.data as Check | undefined;
+      if (!result.success && !result.error?.includes("not found")) {
+        throw new Error(result.error || "Failed to find check");
+      }
+
+      // Unpublished checks look the same as unknown ones, so their existence doesn't leak
+      if (!check) {
+        c.header("Cache-Control", NOT_FOUND_CACHE_CONTROL);
+        return errorResponse(c, "CHECK_NOT_FOUND", "Check not found");
+      }
+
+      c.header("Cache-Control", FOUND_CACHE_CONTROL);
+      return c.json(
+        {
+          success: true,
+          result: toPublicCheck(check),
+        },
+        200
+      );
+    } catch (error: any) {
+      logger.error({ error: error.message, slug }, "Failed to get check");
+      c.header("Cache-Control", "no-store");
+      return errorResponse(c, "INTERNAL_ERROR", "Failed to get check");
+    }
+  }
+}
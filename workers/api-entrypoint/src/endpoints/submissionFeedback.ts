@@ -0,0 +1,178 @@
+import { Bool, Num } from "chanfana";
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import {
+  FeedbackSummary,
+  SubmissionStatusResult,
+} from "@workspace/shared-types";
+import {
+  ConsumerAuthErrorResponses,
+  ErrorResponseSchema,
+  SuccessResponseSchema,
+} from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("submissionFeedback");
+
+const FeedbackSummarySchema = z.object({
+  helpful: Num({
+    description: "How many users found the community note helpful",
+  }),
+  notHelpful: Num({
+    description: "How many users found the community note not helpful",
+  }),
+  downvoted: Bool({
+    description:
+      "Whether the community note has enough negative feedback to be downvoted",
+  }),
+});
+
+export class SubmissionFeedbackPost extends ApiRoute {
+  schema = {
+    tags: ["Agent"],
+    summary: "Give feedback on the community note of a submission",
+    description:
+      "Forwards an end user's reaction to the community note they received. Feedback is kept per submission, so sending it again replaces the earlier feedback. Once enough users find a note not helpful, it is downvoted and sent for review.",
+    security: [{ ApiKeyAuth: [] }],
+    request: {
+      headers: z.object({
+        "x-api-key": z
+          .string({
+            required_error: "API key is required for authentication",
+          })
+          .describe("API key for authentication"),
+      }),
+      params: z.object({
+        id: z
+          .string()
+          .regex(/^[0-9a-f]{24}$/i, "Must be a submission ID")
+          .describe("The ID of the submission"),
+      }),
+      body: {
+        content: {
+          "application/json": {
+            schema: z.object({
+              rating: z
+                .enum(["helpful", "notHelpful"])
+                .describe("Whether the user found the community note helpful"),
+              reason: z
+                .string()
+                .max(500)
+                .optional()
+                .describe("Why the user gave this rating, in their own words"),
+            }),
+          },
+        },
+        required: true,
+      },
+    },
+    responses: {
+      "200": {
+        description: "Returns the feedback on the check so far",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(FeedbackSummarySchema),
+          },
+        },
+      },
+      "404": {
+        description: "Submission not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      "409": {
+        description: "The submission has no check yet",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      ...ConsumerAuthErrorResponses,
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context) {
+    const data = await this.getValidatedData<typeof this.schema>();
+    const { id } = data.params;
+    const { rating, reason } = data.body;
+    const childLogger = logger.child({ submissionId: id });
+
+    try {
+      // Only accept feedback on submissions made by the calling consumer
+      const consumerName = c.get("consumerName");
+      const submissionResult: SubmissionStatusResult =
+        await c.env.AI_CHECKER_SERVICE.getSubmission(id, consumerName);
+      if (!submissionResult.success) {
+        if (submissionResult.error?.message === "Submission not found") {
+          return errorResponse(
+            c,
+            "SUBMISSION_NOT_FOUND",
+            "Submission not found"
+          );
+        }
+        throw new Error(
+          submissionResult.error?.message || "Failed to get submission"
+        );
+      }
+
+      const { checkId } = submissionResult.result;
+      if (!checkId) {
+        return errorResponse(
+          c,
+          "CONFLICT",
+          "The submission has no check to give feedback on yet"
+        );
+      }
+
+      const feedbackResult = await c.env.CHECKS_SERVICE.recordFeedback({
+        submissionId: id,
+        checkId,
+        consumerName,
+        rating,
+        reason: reason ?? null,
+        timestamp: new Date(),
+      });
+      if (!feedbackResult.success) {
+        throw new Error(feedbackResult.error.message);
+      }
+
+      const summary: FeedbackSummary = feedbackResult.summary;
+      childLogger.info(
+        { checkId, rating, summary, downvoted: feedbackResult.downvoted },
+        "Feedback recorded"
+      );
+      return c.json(
+        {
+          success: true,
+          id: checkId,
+          result: {
+            ...summary,
+            downvoted: feedbackResult.downvoted,
+          },
+        },
+        200
+      );
+    } catch (error: any) {
+      childLogger.error({ error: error.message }, "Failed to record feedback");
+      return errorResponse(
+        c,
+        "INTERNAL_ERROR",
+        `Failed to record feedback: ${error.message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { Context } from "hono";
+import { createLogger } from "@workspace/shared-utils";
+import { SubmissionStatusResult } from "@workspace/shared-types";
+import {
+  ConsumerAuthErrorResponses,
+  ErrorResponseSchema,
+  SubmissionStatusSchema,
+  SuccessResponseSchema,
+} from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
+
+const logger = createLogger("getSubmission");
+
+// Define the shared request schema
+export const getSubmissionRequestSchema = {
+  headers: z.object({
+    "x-api-key": z
+      .string({
+        required_error: "API key is required for authentication",
+      })
+      .describe("API key for authentication"),
+  }),
+  params: z.object({
+    id: z.string().describe("The ID of the submission to get"),
+  }),
+};
+
+// Extracted handler logic that can be reused
+export async function handleGetSubmission(
+  c: Context,
+  data: {
+    params: {
+      id: string;
+    };
+  },
+  loggerInstance = logger
+): Promise<Response> {
+  const { id } = data.params;
+  const childLogger = loggerInstance.child({ id });
+
+  try {
+    childLogger.info({ submissionId: id }, "Getting submission by ID");
+
+    // Only return submissions made by the calling consumer
+    const consumerName = c.get("consumerName");
+    const submissionResult: SubmissionStatusResult =
+      await c.env.AI_CHECKER_SERVICE.getSubmission(id, consumerName);
+
+    if (submissionResult.success) {
+      childLogger.info(submissionResult, "Submission retrieved successfully");
+      return c.json(submissionResult);
+    } else {
+      childLogger.error(
+        { error: submissionResult.error, id },
+        "Failed to get submission"
+      );
+      if (submissionResult.error?.message === "Submission not found") {
+        return errorResponse(c, "SUBMISSION_NOT_FOUND", "Submission not found");
+      }
+      throw new Error(
+        submissionResult.error?.message || "Failed to get submission"
+      );
+    }
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error
+        ? error.message
+        : "Unknown error occurred in getSubmission handler";
+
+    childLogger.error(
+      { error, errorMessage, id },
+      "Error in getSubmission handler"
+    );
+
+    return errorResponse(c, "INTERNAL_ERROR", "Internal server error");
+  }
+}
+
+export class GetSubmission extends ApiRoute {
+  schema = {
+    tags: ["Agent"],
+    summary: "Get the status of a submission",
+    description:
+      "Poll this endpoint after an async submission. Once checkStatus is no longer pending, fetch the result from GET /checks/:checkId.",
+    security: [{ ApiKeyAuth: [] }],
+    request: getSubmissionRequestSchema,
+    responses: {
+      "200": {
+        description: "Returns the submission status",
+        content: {
+          "application/json": {
+            schema: SuccessResponseSchema(SubmissionStatusSchema),
+          },
+        },
+      },
+      "404": {
+        description: "Submission not found",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+      ...ConsumerAuthErrorResponses,
+      "500": {
+        description: "Error response",
+        content: {
+          "application/json": {
+            schema: ErrorResponseSchema,
+          },
+        },
+      },
+    },
+  };
+
+  async handle(c: Context): Promise<Response> {
+    const data = await this.getValidatedData<typeof this.schema>();
+    return handleGetSubmission(c, data, logger);
+  }
+}
@@ -1,12 +1,15 @@
-import { Bool, OpenAPIRoute, Str } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
 import { TrivialFilterRequest } from "@workspace/shared-types";
+import { ConsumerAuthErrorResponses, ErrorResponseSchema } from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("trivialFilter");
 
-export class TrivialFilter extends OpenAPIRoute {
+export class TrivialFilter extends ApiRoute {
   schema = {
     tags: ["Embedding"],
     summary: "Get the embedding of a text",
@@ -44,18 +47,12 @@ export class TrivialFilter extends OpenAPIRoute {
           },
         },
       },
+      ...ConsumerAuthErrorResponses,
       "500": {
         description: "Error response",
         content: {
           "application/json": {
-            schema: z.object({
-              success: Bool(),
-              error: z.object({
-                message: Str(),
-                code: Str().optional(),
-                details: z.unknown().optional(),
-              }),
-            }),
+            schema: ErrorResponseSchema,
           },
         },
       },
@@ -110,16 +107,9 @@ export class TrivialFilter extends OpenAPIRoute {
       // Return the request ID in the response headers even for errors
       c.header("x-request-id", requestId);
 
-      return c.json(
-        {
-          success: false,
-          error: {
-            message: "Internal server error",
-            requestId, // Optionally include the request ID in the error response
-          },
-        },
-        500
-      );
+      return errorResponse(c, "INTERNAL_ERROR", "Internal server error", {
+        requestId,
+      });
     }
   }
 }
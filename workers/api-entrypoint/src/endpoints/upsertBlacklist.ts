@@ -1,15 +1,18 @@
-import { Bool, OpenAPIRoute, Str } from "chanfana";
+import { Bool, Str } from "chanfana";
 import { z } from "zod";
 import { Context } from "hono";
 import { createLogger } from "@workspace/shared-utils";
+import { ConsumerAuthErrorResponses, ErrorResponseSchema } from "../schemas";
+import { ApiRoute } from "./apiRoute";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("upsertBlacklist");
 
-export class UpsertBlacklist extends OpenAPIRoute {
+export class UpsertBlacklist extends ApiRoute {
   schema = {
     tags: ["Blacklist"],
     summary: "Update the phone number blacklist",
-    description: "Replace the entire phone number blacklist with a new list. This will overwrite any existing blacklist.",
+    description: "Replace the entire phone number blacklist with a new list. This will overwrite any existing blacklist. Numbers are normalized to E.164, assuming Singapore for numbers without a country code.",
     security: [{ ApiKeyAuth: [] }],
     request: {
       headers: z.object({
@@ -49,21 +52,16 @@ export class UpsertBlacklist extends OpenAPIRoute {
         description: "Bad request - invalid input",
         content: {
           "application/json": {
-            schema: z.object({
-              success: Bool(),
-              error: Str(),
-            }),
+            schema: ErrorResponseSchema,
           },
         },
       },
+      ...ConsumerAuthErrorResponses,
       "500": {
         description: "Error response",
         content: {
           "application/json": {
-            schema: z.object({
-              success: Bool(),
-              error: Str(),
-            }),
+            schema: ErrorResponseSchema,
           },
         },
       },
@@ -117,12 +115,10 @@ export class UpsertBlacklist extends OpenAPIRoute {
           "Blacklist update failed"
         );
         
-        return c.json(
-          {
-            success: false,
-            error: result.error || "Failed to update blacklist",
-          },
-          500
+        return errorResponse(
+          c,
+          "INTERNAL_ERROR",
+          result.error || "Failed to update blacklist"
         );
       }
     } catch (error: unknown) {
@@ -140,13 +136,7 @@ export class UpsertBlacklist extends OpenAPIRoute {
       // Return the request ID in the response headers even for errors
       c.header("x-request-id", requestId);
 
-      return c.json(
-        {
-          success: false,
-          error: errorMessage,
-        },
-        500
-      );
+      return errorResponse(c, "INTERNAL_ERROR", errorMessage);
     }
   }
 }
\ No newline at end of file
@@ -7,16 +7,54 @@ import { TrivialFilter } from "./endpoints/trivialFilter";
 import { ConsumerPost } from "./endpoints/consumerPost";
 import { ConsumerList } from "./endpoints/consumerList";
 import { UpsertBlacklist } from "./endpoints/upsertBlacklist";
+import {
+  BlacklistLookupGet,
+  BlacklistLookupPost,
+} from "./endpoints/blacklistLookup";
 import { ConsumerGet } from "./endpoints/consumerGet";
 import { consumerAuth } from "./middleware/consumerAuth";
 import { adminAuth } from "./middleware/adminAuth";
 import { ConsumerDelete } from "./endpoints/consumerDelete";
 import { ConsumerUpdateAPIs } from "./endpoints/consumerUpdateAPIs";
+import {
+  ConsumerRotateAPIKey,
+  ConsumerRevokePreviousAPIKey,
+} from "./endpoints/consumerRotateAPIKey";
+import {
+  ConsumerLimitsGet,
+  ConsumerLimitsUpdate,
+} from "./endpoints/consumerLimits";
+import { ConsumerPipelineProfileUpdate } from "./endpoints/consumerPipelineProfile";
+import {
+  ConsumerUsageGet,
+  ConsumerUsageAdminGet,
+} from "./endpoints/consumerUsage";
+import { ConsumerSubmissionList } from "./endpoints/consumerSubmissions";
 import { GetCheck } from "./endpoints/checkGet";
 import { PatchCheck } from "./endpoints/checkPatch";
+import { GetCheckHistory } from "./endpoints/checkHistoryGet";
+import { EraseCheck } from "./endpoints/checkErase";
+import { RetryCheck } from "./endpoints/checkRetry";
 import { PatchCheckHumanNote } from "./endpoints/checkHumanNotePatch";
 export { Consumer } from "./durable-objects/consumer";
 import { AgentCheckV2 } from "./endpoints/agentCheckV2";
+import { PublicCheckGet } from "./endpoints/publicCheckGet";
+import { GetSubmission } from "./endpoints/submissionGet";
+import { HealthCheck, HealthCheckDetails } from "./endpoints/healthCheck";
+import { SubmissionFeedbackPost } from "./endpoints/submissionFeedback";
+import { CheckStream, CheckProgressStream } from "./endpoints/checkStream";
+import { CheckBatch } from "./endpoints/checkBatch";
+import { CheckSearch } from "./endpoints/checkSearch";
+import {
+  WebhookCreate,
+  WebhookList,
+  WebhookDelete,
+  WebhookSecretRotate,
+} from "./endpoints/consumerWebhooks";
+import {
+  handleConsumerWebhookEvents,
+  handleConsumerWebhookDeliveries,
+} from "./queues/consumerWebhooks";
 
 // Start a Hono app
 const app = new Hono();
@@ -33,14 +71,28 @@ app.use("/getAgentResultV2", consumerAuth);
 app.use("/getCommunityNote", consumerAuth);
 app.use("/getNeedsChecking", consumerAuth);
 app.use("/upsertBlacklist", consumerAuth);
+app.use("/lookupBlacklist", consumerAuth);
 app.use("/checks/:id", consumerAuth);
 app.use("/checks/:id/humanNote", consumerAuth);
-
-// Apply adminAuth middleware to admin routes
-app.use("/consumers", adminAuth);
+app.use("/checks/:id/stream", consumerAuth);
+// Note: POST /checks/stream, /checks/batch and /checks/search are already covered by the /checks/:id middleware above
+app.use("/submissions/:id", consumerAuth);
+app.use("/submissions/:id/feedback", consumerAuth);
+
+// Apply adminAuth middleware to admin routes, including /consumers itself
+app.use("/consumers/*", adminAuth);
+app.use("/checks/:id/history", adminAuth);
+app.use("/checks/:id/erase", adminAuth);
+app.use("/checks/:id/retry", adminAuth);
+app.use("/health/details", adminAuth);
 
 // Register OpenAPI endpoints
 
+// Probe every dependency, for uptime monitors
+openapi.get("/health", HealthCheck);
+// Same, with errors and details of each dependency, for admins
+openapi.get("/health/details", HealthCheckDetails);
+
 // Get the embedding of a text
 openapi.post("/getEmbedding", Embed);
 
@@ -59,9 +111,51 @@ openapi.post("/getNeedsChecking", TrivialFilter);
 // Let the consumer get their own details
 openapi.get("/consumer/details", ConsumerGet);
 
+// Let the consumer get their own daily usage, as JSON or CSV
+openapi.get("/consumer/usage", ConsumerUsageGet);
+
+// Let the consumer list their own submissions and what happened to them
+openapi.get("/consumer/submissions", ConsumerSubmissionList);
+
+// Let the consumer manage their own webhooks
+openapi.post("/consumer/webhooks", WebhookCreate);
+openapi.get("/consumer/webhooks", WebhookList);
+openapi.delete("/consumer/webhooks/:id", WebhookDelete);
+openapi.post("/consumer/webhooks/secret", WebhookSecretRotate);
+
 // Get the check details
 openapi.get("/checks/:id", GetCheck);
 
+// Submit a check and stream its progress as Server-Sent Events
+openapi.post("/checks/stream", CheckStream);
+
+// Submit up to 50 checks at once
+openapi.post("/checks/batch", CheckBatch);
+
+// Find existing checks similar to a text or image, without submitting it
+openapi.post("/checks/search", CheckSearch);
+
+// Stream the progress of an existing check as Server-Sent Events
+openapi.get("/checks/:id/stream", CheckProgressStream);
+
+// Get a check approved for publishing, without authentication
+openapi.get("/public/checks/:slug", PublicCheckGet);
+
+// Get the status of a submission, e.g. one made with async: true
+openapi.get("/submissions/:id", GetSubmission);
+
+// Record an end user's feedback on the community note they received
+openapi.post("/submissions/:id/feedback", SubmissionFeedbackPost);
+
+// Get every recorded update of a check, for moderators
+openapi.get("/checks/:id/history", GetCheckHistory);
+
+// Erase a check and all its data, for takedown and privacy requests
+openapi.post("/checks/:id/erase", EraseCheck);
+
+// Run a failed check again, resuming from the last step that succeeded
+openapi.post("/checks/:id/retry", RetryCheck);
+
 // Update the check details
 openapi.patch("/checks/:id", PatchCheck);
 
@@ -71,6 +165,10 @@ openapi.patch("/checks/:id/humanNote", PatchCheckHumanNote);
 // Upsert the phone number blacklist
 openapi.post("/upsertBlacklist", UpsertBlacklist);
 
+// Look up one or several phone numbers in the blacklist
+openapi.get("/lookupBlacklist", BlacklistLookupGet);
+openapi.post("/lookupBlacklist", BlacklistLookupPost);
+
 // Consumer endpoints - these need admin auth middleware
 openapi.post("/consumers", ConsumerPost);
 openapi.get("/consumers", ConsumerList);
@@ -79,6 +177,32 @@ openapi.delete("/consumers/:consumerName?", ConsumerDelete);
 // Update allowed APIs for a consumer - supports update by name, API key, or both
 openapi.put("/consumers/:consumerName/allowedAPIs", ConsumerUpdateAPIs);
 openapi.put("/consumers/allowedAPIs", ConsumerUpdateAPIs);
-
-// Export the Hono app
-export default app;
+// Rotate a consumer's API key, keeping the previous key valid for a grace period
+openapi.post("/consumers/:consumerName/apiKey/rotate", ConsumerRotateAPIKey);
+// End the grace period of the previous API key early
+openapi.delete(
+  "/consumers/:consumerName/apiKey/previous",
+  ConsumerRevokePreviousAPIKey
+);
+// Get and set per-API rate limits and monthly quotas
+openapi.get("/consumers/:consumerName/limits", ConsumerLimitsGet);
+openapi.put("/consumers/:consumerName/limits/:api", ConsumerLimitsUpdate);
+// Set the pipeline profile a consumer's checks run with
+openapi.put(
+  "/consumers/:consumerName/pipelineProfile",
+  ConsumerPipelineProfileUpdate
+);
+// Get a consumer's daily usage, as JSON or CSV
+openapi.get("/consumers/:consumerName/usage", ConsumerUsageAdminGet);
+
+// Export the Hono app, along with the queue consumers for webhook events and deliveries
+export default {
+  fetch: app.fetch,
+  async queue(batch: MessageBatch<any>, env: Env) {
+    if (batch.queue.startsWith("consumer-webhook-deliveries")) {
+      await handleConsumerWebhookDeliveries(batch, env);
+    } else {
+      await handleConsumerWebhookEvents(batch, env);
+    }
+  },
+} satisfies ExportedHandler<Env>;
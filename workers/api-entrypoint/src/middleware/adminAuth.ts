@@ -1,42 +1,148 @@
 import { Context, Next } from "hono";
+import { decode, verify } from "hono/jwt";
+import type { HonoJsonWebKey } from "hono/utils/jwt/jws";
 import { createLogger } from "@workspace/shared-utils";
+import { AdminIdentity } from "../types";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("Admin Auth Middleware");
 
+// How long the Cloudflare Access signing keys are cached before being fetched again
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+let jwksCache: {
+  url: string;
+  keys: HonoJsonWebKey[];
+  fetchedAt: number;
+} | null = null;
+
+// CF_ACCESS_JWKS_URL can point at a locally served JWKS for testing
+function getJwksUrl(env: Env) {
+  return (
+    env.CF_ACCESS_JWKS_URL ||
+    `${env.CF_ACCESS_TEAM_DOMAIN}/cdn-cgi/access/certs`
+  );
+}
+
+async function getSigningKeys(env: Env, forceRefresh = false) {
+  const url = getJwksUrl(env);
+  if (
+    !forceRefresh &&
+    jwksCache &&
+    jwksCache.url === url &&
+    Date.now() - jwksCache.fetchedAt < JWKS_CACHE_TTL_MS
+  ) {
+    return jwksCache.keys;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch Cloudflare Access JWKS: ${response.status}`
+    );
+  }
+  const jwks = (await response.json()) as { keys?: HonoJsonWebKey[] };
+  if (!Array.isArray(jwks.keys)) {
+    throw new Error("Invalid Cloudflare Access JWKS response");
+  }
+  jwksCache = { url, keys: jwks.keys, fetchedAt: Date.now() };
+  return jwks.keys;
+}
+
+/**
+ * Verifies a Cloudflare Access JWT's signature, issuer, audience and expiry,
+ * and returns the identity it was issued to
+ */
+export async function verifyAccessJwt(
+  env: Env,
+  token: string
+): Promise<AdminIdentity> {
+  // Without these, any token signed by the keys would pass the checks below
+  if (!env.CF_ACCESS_TEAM_DOMAIN || !env.CF_ACCESS_AUD) {
+    throw new Error("Cloudflare Access is not configured");
+  }
+
+  const { kid } = decode(token).header;
+  let keys = await getSigningKeys(env);
+  let key = keys.find((jwk) => jwk.kid === kid);
+  if (!key) {
+    // Cloudflare Access rotates its keys, so the cache may be stale
+    keys = await getSigningKeys(env, true);
+    key = keys.find((jwk) => jwk.kid === kid);
+  }
+  if (!key) {
+    throw new Error("No matching signing key");
+  }
+
+  const payload = await verify(token, key, {
+    alg: "RS256",
+    iss: env.CF_ACCESS_TEAM_DOMAIN,
+  });
+
+  const audience = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audience.includes(env.CF_ACCESS_AUD)) {
+    throw new Error("Invalid audience");
+  }
+
+  // Users have an email, service tokens have the client ID as their common name
+  if (typeof payload.email === "string" && payload.email) {
+    return { type: "user", id: payload.email };
+  }
+  if (typeof payload.common_name === "string" && payload.common_name) {
+    return { type: "service-token", id: payload.common_name };
+  }
+  throw new Error("Token has no identity");
+}
+
 export async function adminAuth(c: Context<{ Bindings: Env }>, next: Next) {
   try {
-    if (c.env.ENVIRONMENT === "development") {
+    // Cloudflare Access can still be configured in development, e.g. to test against a local JWKS
+    if (c.env.ENVIRONMENT === "development" && !c.env.CF_ACCESS_TEAM_DOMAIN) {
+      c.set("adminIdentity", { type: "development", id: "development" });
       await next();
       return;
     }
-    // Get the Cloudflare Access service token headers
+    // Get the Cloudflare Access JWT
     const JWT = c.req.header("Cf-Access-Jwt-Assertion");
 
     if (!JWT) {
       logger.warn("Missing Cloudflare Access JWT assertion header");
-      return c.json(
-        {
-          error: "Unauthorized: Missing Cloudflare Access JWT assertion header",
-        },
-        { status: 401 }
+      return errorResponse(
+        c,
+        "UNAUTHORIZED",
+        "Unauthorized: Missing Cloudflare Access JWT assertion header"
       );
     }
 
-    // In a production environment, you would validate these credentials against expected values
-    // For example, comparing against environment variables or a secure storage
-
-    // For now, we're just checking for the presence of the headers
-    // as Cloudflare Access handles the authentication before the request reaches the worker
+    let identity: AdminIdentity;
+    try {
+      identity = await verifyAccessJwt(c.env, JWT);
+    } catch (error) {
+      logger.warn(
+        { error: error instanceof Error ? error.message : error },
+        "Invalid Cloudflare Access JWT"
+      );
+      return errorResponse(
+        c,
+        "UNAUTHORIZED",
+        "Unauthorized: Invalid Cloudflare Access JWT"
+      );
+    }
 
-    logger.info(`Admin access by service client`);
+    logger.info(
+      { adminIdentity: identity },
+      `Admin access by ${identity.type} ${identity.id}`
+    );
+    c.set("adminIdentity", identity);
 
     // Continue to the next middleware or route handler
     await next();
   } catch (error) {
     logger.error("Error in admin auth middleware", error);
-    return c.json(
-      { error: "Internal server error during authentication" },
-      { status: 500 }
+    return errorResponse(
+      c,
+      "INTERNAL_ERROR",
+      "Internal server error during authentication"
     );
   }
 }
@@ -1,9 +1,72 @@
 import { Context, Next } from "hono";
 import { createLogger } from "@workspace/shared-utils";
+import { getAPIKeyPrefix, getConsumerStub } from "../utils/consumer";
+import { errorResponse } from "../utils/errors";
 
 const logger = createLogger("Consumer Auth Middleware");
 
+// Endpoints that accept several items in one request, mapped to the field holding the items
+const BATCH_ENDPOINTS: Record<string, string> = {
+  "POST /checks/batch": "items",
+  "POST /lookupBlacklist": "phoneNumbers",
+};
+
+/**
+ * Endpoints that share a path prefix, with the API name each has its own rate
+ * limit, quota and usage counts under. Access is still granted by the prefix.
+ */
+const PREFIXED_ENDPOINTS: { method: string; path: RegExp; apiName: string }[] =
+  [
+    { method: "POST", path: /^\/checks\/batch$/, apiName: "checkBatch" },
+    { method: "POST", path: /^\/checks\/search$/, apiName: "checkSearch" },
+    { method: "POST", path: /^\/checks\/stream$/, apiName: "checkStream" },
+    {
+      method: "GET",
+      path: /^\/checks\/[^/]+\/stream$/,
+      apiName: "checkProgress",
+    },
+    {
+      method: "PATCH",
+      path: /^\/checks\/[^/]+\/humanNote$/,
+      apiName: "checkHumanNote",
+    },
+    { method: "GET", path: /^\/checks\/[^/]+$/, apiName: "checkGet" },
+    { method: "PATCH", path: /^\/checks\/[^/]+$/, apiName: "checkUpdate" },
+    {
+      method: "POST",
+      path: /^\/submissions\/[^/]+\/feedback$/,
+      apiName: "submissionFeedback",
+    },
+  ];
+
+// The API name of a request's endpoint, e.g. /getEmbedding -> getEmbedding
+function getAPIName(method: string, path: string, pathPrefix: string) {
+  return (
+    PREFIXED_ENDPOINTS.find(
+      (endpoint) => endpoint.method === method && endpoint.path.test(path)
+    )?.apiName ?? pathPrefix
+  );
+}
+
+// Number of units a request counts as for rate limiting and usage counts
+async function getRequestUnits(c: Context<{ Bindings: Env }>) {
+  const itemsField = BATCH_ENDPOINTS[`${c.req.method} ${c.req.path}`];
+  if (!itemsField) {
+    return 1;
+  }
+  try {
+    // Read a clone, as the endpoint reads the body of the raw request again when validating it
+    const body: any = await c.req.raw.clone().json();
+    const items = body?.[itemsField];
+    return Array.isArray(items) && items.length > 0 ? items.length : 1;
+  } catch {
+    // Invalid bodies are rejected by the endpoint's validation
+    return 1;
+  }
+}
+
 export async function consumerAuth(c: Context<{ Bindings: Env }>, next: Next) {
+  const startedAt = Date.now();
   try {
     // if (c.env.ENVIRONMENT === "development") {
     //   await next();
@@ -22,56 +85,85 @@ export async function consumerAuth(c: Context<{ Bindings: Env }>, next: Next) {
     }
 
     if (!apiKey) {
-      return c.json({ error: "Missing X-API-Key header" }, { status: 401 });
+      return errorResponse(c, "UNAUTHORIZED", "Missing X-API-Key header");
     }
 
     // Get the API name from the path
     const path = c.req.path;
-    const apiName = path.split("/")[1]; // e.g., /getEmbedding -> getEmbedding
+    const pathPrefix = path.split("/")[1];
+    const apiName = getAPIName(c.req.method, path, pathPrefix);
 
-    // Get the consumer Durable Object directly using the API key as the name
-    const consumerId = c.env.CONSUMER.idFromName(apiKey);
-    const stub = c.env.CONSUMER.get(consumerId);
+    // Get the consumer Durable Object for the API key, following any key rotation
+    const stub = await getConsumerStub(c.env, apiKey);
 
     // Check if the consumer is initialized
-    const isInitialized = await stub.checkConsumerExists();
-    if (!isInitialized) {
-      return c.json({ error: "Consumer not found" }, { status: 404 });
+    const isInitialized = stub !== null && (await stub.checkConsumerExists());
+    if (!stub || !isInitialized) {
+      return errorResponse(c, "UNAUTHORIZED", "Invalid API key");
     }
 
     // Check if the consumer has access to this API
-    const hasAccess = await stub.checkAllowedAPI(apiName);
+    const hasAccess = await stub.checkAllowedAPI(apiName, pathPrefix);
     if (!hasAccess) {
-      return c.json(
-        { error: `Access denied to API: ${apiName}` },
-        { status: 403 }
-      );
+      return errorResponse(c, "FORBIDDEN", `Access denied to API: ${apiName}`);
     }
 
-    // Check rate limits
-    const millisecondsToWait = await stub.getMillisecondsToNextRequest();
-    if (millisecondsToWait > 0) {
-      return c.json(
-        {
-          error: "Rate limit exceeded",
-          retryAfter: millisecondsToWait,
-        },
-        {
-          status: 429,
-          headers: {
-            "Retry-After": (millisecondsToWait / 1000).toString(),
-          },
-        }
+    // Check rate limits and quotas, counting each item of a batch request
+    const units = await getRequestUnits(c);
+    const rateLimit = await stub.checkRateLimit(apiName, units);
+    c.header("X-RateLimit-Limit", rateLimit.rateLimit.limit.toString());
+    c.header(
+      "X-RateLimit-Remaining",
+      Math.max(rateLimit.rateLimit.remaining, 0).toString()
+    );
+    c.header("X-RateLimit-Reset", rateLimit.rateLimit.resetSeconds.toString());
+    if (rateLimit.quota) {
+      c.header("X-Quota-Limit", rateLimit.quota.limit.toString());
+      c.header("X-Quota-Remaining", rateLimit.quota.remaining.toString());
+    }
+
+    if (!rateLimit.allowed) {
+      const status = rateLimit.reason === "too-large" ? 400 : 429;
+      await stub.recordDailyUsage(
+        apiName,
+        units,
+        status,
+        Date.now() - startedAt
+      );
+    }
+    if (rateLimit.reason === "too-large") {
+      return errorResponse(
+        c,
+        "INVALID_REQUEST",
+        `A request can count for at most ${rateLimit.rateLimit.limit} items of ${apiName}, send fewer at a time`
       );
     }
+    if (rateLimit.reason === "quota") {
+      return errorResponse(
+        c,
+        "QUOTA_EXCEEDED",
+        `Monthly quota exceeded for API: ${apiName}`
+      );
+    }
+    if (!rateLimit.allowed) {
+      const millisecondsToWait = rateLimit.retryAfterMilliseconds;
+      c.header("Retry-After", Math.ceil(millisecondsToWait / 1000).toString());
+      return errorResponse(c, "RATE_LIMITED", "Rate limit exceeded", {
+        retryAfter: millisecondsToWait,
+      });
+    }
 
     const name = await stub.getName();
-    logger.info(`Consumer ${name} accessed ${apiName}`);
+    logger.info(
+      { apiKeyPrefix: getAPIKeyPrefix(apiKey) },
+      `Consumer ${name} accessed ${apiName}`
+    );
 
     // Add consumer name to request headers
     if (name) {
       c.set("consumerName", name);
     }
+    c.set("pipelineProfile", await stub.getPipelineProfile());
 
     // Continue to the next middleware or route handler
     await next();
@@ -79,9 +171,10 @@ export async function consumerAuth(c: Context<{ Bindings: Env }>, next: Next) {
     // Only increment the API call counts if the response was successful (not a 5xx error)
     // We can access the response status after next() has been called
     const status = c.res.status;
+    await stub.recordDailyUsage(apiName, units, status, Date.now() - startedAt);
     if (status < 500) {
       // Increment counts for all responses except server errors (5xx)
-      await stub.incrementCounts(apiName);
+      await stub.incrementCounts(apiName, units);
     } else {
       logger.info(
         `Not incrementing count for ${apiName} due to status ${status}`
@@ -89,9 +182,10 @@ export async function consumerAuth(c: Context<{ Bindings: Env }>, next: Next) {
     }
   } catch (error) {
     logger.error("Error in consumer auth middleware", error);
-    return c.json(
-      { error: "Internal server error during authentication" },
-      { status: 500 }
+    return errorResponse(
+      c,
+      "INTERNAL_ERROR",
+      "Internal server error during authentication"
     );
   }
 }
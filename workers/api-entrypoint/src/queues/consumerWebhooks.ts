@@ -0,0 +1,182 @@
+import { createLogger, hmacSha256 } from "@workspace/shared-utils";
+import {
+  CheckLifecycleEvent,
+  Submission,
+  WebhookPayload,
+} from "@workspace/shared-types";
+import { getConsumerStubByName } from "../utils/consumer";
+
+const logger = createLogger("consumerWebhooks");
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 60 * 60; // 1 hour
+
+export interface WebhookDelivery {
+  consumerName: string;
+  webhookId: string;
+  payload: WebhookPayload;
+}
+
+// Exponential backoff based on the number of attempts so far
+function getRetryDelaySeconds(attempts: number) {
+  return Math.min(
+    BASE_RETRY_DELAY_SECONDS * 2 ** (attempts - 1),
+    MAX_RETRY_DELAY_SECONDS
+  );
+}
+
+/**
+ * Maps a check lifecycle event to the consumers that submitted the check and
+ * queues one delivery per subscribed webhook, so each webhook is retried independently
+ */
+async function fanOutEvent(env: Env, event: CheckLifecycleEvent) {
+  const childLogger = logger.child({
+    checkId: event.checkId,
+    type: event.type,
+  });
+
+  const submissionsResult = await env.DATABASE_SERVICE.findSubmissionsByCheckId(
+    event.checkId
+  );
+  if (!submissionsResult.success) {
+    throw new Error(
+      `Failed to find submissions for check: ${submissionsResult.error}`
+    );
+  }
+
+  const submissionIdsByConsumer = new Map<string, string[]>();
+  for (const submission of (submissionsResult.data || []) as Submission[]) {
+    if (submission.sourceType !== "api") {
+      continue;
+    }
+    const submissionIds =
+      submissionIdsByConsumer.get(submission.consumerName) || [];
+    submissionIds.push(submission._id.toString());
+    submissionIdsByConsumer.set(submission.consumerName, submissionIds);
+  }
+
+  const deliveries: WebhookDelivery[] = [];
+  for (const [consumerName, submissionIds] of submissionIdsByConsumer) {
+    const stub = await getConsumerStubByName(env, consumerName);
+    if (!stub) {
+      continue;
+    }
+    const webhooks = await stub.getWebhooksForEvent(event.type);
+    for (const webhook of webhooks) {
+      deliveries.push({
+        consumerName,
+        webhookId: webhook.id,
+        payload: {
+          id: crypto.randomUUID(),
+          type: event.type,
+          checkId: event.checkId,
+          submissionIds,
+          timestamp: event.timestamp,
+          data: event.data || {},
+        },
+      });
+    }
+  }
+
+  if (deliveries.length > 0) {
+    await env.CONSUMER_WEBHOOK_DELIVERY_QUEUE.sendBatch(
+      deliveries.map((delivery) => ({ body: delivery }))
+    );
+  }
+  childLogger.info(
+    {
+      consumers: submissionIdsByConsumer.size,
+      deliveries: deliveries.length,
+    },
+    "Fanned out check event to webhooks"
+  );
+}
+
+/**
+ * Sends a signed webhook delivery. The signature is an HMAC-SHA256 of
+ * `${timestamp}.${body}` using the consumer's webhook secret.
+ * Returns false if the delivery should be retried.
+ */
+async function deliverWebhook(
+  env: Env,
+  delivery: WebhookDelivery
+): Promise<boolean> {
+  const childLogger = logger.child({
+    consumerName: delivery.consumerName,
+    webhookId: delivery.webhookId,
+    deliveryId: delivery.payload.id,
+  });
+
+  const stub = await getConsumerStubByName(env, delivery.consumerName);
+  const webhook = stub
+    ? (await stub.getWebhooks()).find(({ id }) => id === delivery.webhookId)
+    : undefined;
+  const secret = stub ? await stub.getWebhookSecret() : null;
+  if (!webhook || !secret) {
+    childLogger.info("Webhook no longer exists, dropping delivery");
+    return true;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await hmacSha256(secret, `${timestamp}.${body}`);
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Checkmate-Event": delivery.payload.type,
+        "X-Checkmate-Delivery": delivery.payload.id,
+        "X-Checkmate-Signature": `t=${timestamp},v1=${signature}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      childLogger.warn(
+        { status: response.status },
+        "Webhook endpoint returned an error"
+      );
+      return false;
+    }
+    childLogger.info("Webhook delivered");
+    return true;
+  } catch (error) {
+    childLogger.warn({ error }, "Webhook delivery failed");
+    return false;
+  }
+}
+
+export async function handleConsumerWebhookEvents(
+  batch: MessageBatch<CheckLifecycleEvent>,
+  env: Env
+) {
+  for (const message of batch.messages) {
+    try {
+      await fanOutEvent(env, message.body);
+      message.ack();
+    } catch (error) {
+      logger.error(
+        { error, event: message.body },
+        "Failed to fan out check event"
+      );
+      message.retry({ delaySeconds: getRetryDelaySeconds(message.attempts) });
+    }
+  }
+}
+
+export async function handleConsumerWebhookDeliveries(
+  batch: MessageBatch<WebhookDelivery>,
+  env: Env
+) {
+  for (const message of batch.messages) {
+    const delivered = await deliverWebhook(env, message.body);
+    if (delivered) {
+      message.ack();
+    } else {
+      message.retry({ delaySeconds: getRetryDelaySeconds(message.attempts) });
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { z } from "zod";
-import { Bool, DateTime, Str } from "chanfana";
+import { Bool, DateTime, Num, Str } from "chanfana";
+import { CLAIM_VERDICTS, MACHINE_CATEGORIES } from "@workspace/shared-utils";
+import { ERROR_CODE_NAMES } from "../utils/errors";
 
 // Schema for individual API usage statistics
 export const ApiCountSchema = z.object({
@@ -15,17 +17,68 @@ export const ConsumerCountsSchema = z.object({
   name: z.string({
     description: "Consumer name",
   }),
+  apiKeyPrefix: z.string({
+    description: "The start of the consumer's API key, for identification",
+  }),
+  pipelineProfile: z
+    .string()
+    .nullable()
+    .describe(
+      "The pipeline profile the consumer's checks run with, or null for the default profile"
+    ),
   apiCounts: ApiCountSchema,
 });
 
-// Common error response schema
+// Common error response schema, used by every error response
 export const ErrorResponseSchema = z.object({
   success: z
     .literal(false)
     .describe("Indicates if the operation was successful"),
-  error: Str({ description: "Error message describing what went wrong" }),
+  error: z.object({
+    code: z
+      .enum(ERROR_CODE_NAMES)
+      .describe(
+        "Stable machine-readable error code. CHECK_NOT_FOUND, SUBMISSION_NOT_FOUND, CONSUMER_NOT_FOUND, WEBHOOK_NOT_FOUND and NOT_FOUND are 404s, RATE_LIMITED and QUOTA_EXCEEDED are 429s, PREPROCESSING_FAILED is a 422 for content that could not be read, CHECK_FAILED and UPSTREAM_ERROR are 502s, and UPSTREAM_TIMEOUT is a 504."
+      ),
+    message: Str({ description: "Error message describing what went wrong" }),
+    details: z
+      .any()
+      .optional()
+      .describe("Additional information, e.g. the validation issues"),
+  }),
 });
 
+function errorResponseDoc(description: string) {
+  return {
+    description,
+    content: {
+      "application/json": {
+        schema: ErrorResponseSchema,
+      },
+    },
+  };
+}
+
+// Errors returned by the consumer auth middleware before the endpoint runs
+export const ConsumerAuthErrorResponses = {
+  "401": errorResponseDoc("Missing or invalid API key (UNAUTHORIZED)"),
+  "403": errorResponseDoc(
+    "The API key does not have access to this API, or to the pipeline profile or model requested (FORBIDDEN)"
+  ),
+  "429": errorResponseDoc(
+    "Rate limit (RATE_LIMITED) or monthly quota (QUOTA_EXCEEDED) exceeded. Retry-After gives the seconds to wait when rate limited."
+  ),
+};
+
+// Errors returned when a check could not be generated
+export const CheckErrorResponses = {
+  "422": errorResponseDoc(
+    "The submitted content could not be preprocessed (PREPROCESSING_FAILED)"
+  ),
+  "502": errorResponseDoc("The check could not be generated (CHECK_FAILED)"),
+  "504": errorResponseDoc("Timed out waiting for the check (UPSTREAM_TIMEOUT)"),
+};
+
 // Success response wrapper schema
 export const SuccessResponseSchema = <T extends z.ZodTypeAny>(
   resultSchema: T
@@ -63,4 +116,138 @@ export const CheckResultSchema = z.object({
   timestamp: DateTime(),
   isHumanAssessed: Bool(),
   isVoteTriggered: Bool(),
+  machineCategory: z
+    .enum(MACHINE_CATEGORIES)
+    .nullable()
+    .describe(
+      "The verdict of the pipeline, from the same taxonomy as the categories checkers vote on"
+    ),
+  machineCategoryConfidence: Num({
+    description: "How sure the pipeline is of machineCategory, between 0 and 1",
+  }).nullable(),
+  claims: z
+    .array(
+      z.object({
+        claim: Str({ description: "A checkable claim made by the content" }),
+        verdict: z.enum(CLAIM_VERDICTS),
+        links: z
+          .array(Str())
+          .describe("The URLs of the evidence for the verdict"),
+      })
+    )
+    .nullable()
+    .describe(
+      "The verdict on each claim made by the content, as a message can mix true and false claims"
+    ),
+});
+
+export const SubmissionStatusSchema = z.object({
+  submissionId: Str({ description: "The ID of the submission" }),
+  checkId: Str({
+    description: "The ID of the check linked to the submission",
+  }).nullable(),
+  requestId: Str({
+    description: "The x-request-id the submission was made with",
+  }).nullable(),
+  timestamp: DateTime(),
+  checkStatus: z
+    .enum(["pending", "completed", "error"])
+    .describe("The status of the submission"),
+  generationStatus: Str({
+    description:
+      "The generation status of the linked check, e.g. pending, completed, error-agentLoop",
+  }).nullable(),
+});
+
+export const WebhookEventTypeSchema = z
+  .enum([
+    "completed",
+    "errored",
+    "assessed",
+    "downvoted",
+    "categoryChanged",
+    "humanNoteUpdated",
+  ])
+  .describe("A check lifecycle event that can be delivered to a webhook");
+
+export const WebhookSchema = z.object({
+  id: Str({ description: "The ID of the webhook" }),
+  url: Str({ description: "The https URL deliveries are POSTed to" }),
+  events: z.array(WebhookEventTypeSchema),
+  createdAt: DateTime(),
+});
+
+export const RateLimitSettingsSchema = z.object({
+  millisecondsPerRequest: z
+    .number()
+    .int()
+    .positive()
+    .describe("Milliseconds for one token to be added to the API's bucket"),
+  capacity: z
+    .number()
+    .int()
+    .positive()
+    .describe("Maximum number of tokens in the API's bucket"),
+});
+
+export const QuotaSettingsSchema = z.object({
+  monthlyLimit: z
+    .number()
+    .int()
+    .nonnegative()
+    .describe("Maximum number of calls to the API per calendar month"),
+  mode: z
+    .enum(["hard", "soft"])
+    .describe(
+      "Hard quotas reject requests once reached, soft quotas only log them"
+    ),
+});
+
+export const ConsumerLimitsSchema = z.object({
+  millisecondsPerRequest: z.number({
+    description: "Refill rate of the bucket shared by all APIs",
+  }),
+  capacity: z.number({
+    description: "Capacity of the bucket shared by all APIs",
+  }),
+  millisecondsForUpdates: z.number({
+    description: "How often the shared bucket is refilled",
+  }),
+  rateLimits: z.record(RateLimitSettingsSchema),
+  quotas: z.record(QuotaSettingsSchema),
+});
+
+export const DailyUsageSchema = z.object({
+  date: z.string({ description: "Day in YYYY-MM-DD format (UTC)" }),
+  api: z.string(),
+  calls: z.number({
+    description: "Calls made, counting each item of a batch request",
+  }),
+  clientErrors: z.number({ description: "Calls that returned a 4xx status" }),
+  serverErrors: z.number({ description: "Calls that returned a 5xx status" }),
+  latency: z.record(z.number(), {
+    description:
+      "Number of requests per latency bucket, e.g. lt100ms, lt1s and gte120s",
+  }),
+});
+
+export const CheckAuditEntrySchema = z.object({
+  version: z.number({
+    description: "Increases with every update of the check",
+  }),
+  actor: z.string({
+    description:
+      "Who made the change, e.g. a checker, consumer:<name>, telegram:<user id>, poll-update or system",
+  }),
+  timestamp: DateTime(),
+  changes: z.array(
+    z.object({
+      field: z.string({
+        description:
+          "Dotted path of the field, e.g. shortformResponse.downvoted",
+      }),
+      before: z.any(),
+      after: z.any(),
+    })
+  ),
 });
@@ -11,9 +11,19 @@ export const Task = z.object({
 
 export const Embedding = z.array(z.number());
 
+// Who made an admin request, from their Cloudflare Access JWT
+export interface AdminIdentity {
+  type: "user" | "service-token" | "development";
+  // The email of a user, or the client ID of a service token
+  id: string;
+}
+
 // Extend Hono's ContextVariableMap to include our custom variables
 declare module "hono" {
   interface ContextVariableMap {
     consumerName: string;
+    // The consumer's pipeline profile, or null for the default profile
+    pipelineProfile: string | null;
+    adminIdentity: AdminIdentity;
   }
 }
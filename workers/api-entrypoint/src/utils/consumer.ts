@@ -0,0 +1,72 @@
+import { hashText } from "@workspace/shared-utils";
+
+const API_KEY_PREFIX_LENGTH = 8;
+
+/**
+ * Hashes an API key with the API_KEY_SALT secret. Only hashes are stored,
+ * so the salt must never change or every existing key stops working.
+ */
+export async function hashAPIKey(env: Env, apiKey: string) {
+  return hashText(`${env.API_KEY_SALT}:${apiKey}`);
+}
+
+// The non-secret start of an API key, used to identify it in listings and logs
+export function getAPIKeyPrefix(apiKey: string) {
+  return apiKey.slice(0, API_KEY_PREFIX_LENGTH);
+}
+
+// Start of the Durable Object names given to consumers moved off their plaintext API key
+export const MOVED_OBJECT_NAME_PREFIX = "consumer-";
+
+// Consumers are named after the hash of their first key, or moved to an opaque name
+function isOpaqueObjectName(objectName: string) {
+  return (
+    /^[0-9a-f]{64}$/.test(objectName) ||
+    objectName.startsWith(MOVED_OBJECT_NAME_PREFIX)
+  );
+}
+
+/**
+ * Gets the Consumer Durable Object stub for an object name. Consumers created
+ * before API keys were hashed are named after their plaintext key, so they
+ * are first moved to an opaque name. Returns null if there is no such consumer.
+ */
+async function getStubForObjectName(env: Env, objectName: string) {
+  const stub = env.CONSUMER.get(env.CONSUMER.idFromName(objectName));
+  if (isOpaqueObjectName(objectName)) {
+    return stub;
+  }
+  const movedTo = await stub.moveToOpaqueName();
+  if (!movedTo) {
+    return null;
+  }
+  return env.CONSUMER.get(env.CONSUMER.idFromName(movedTo));
+}
+
+/**
+ * Gets the Consumer Durable Object stub for an API key.
+ * A consumer's Durable Object keeps the name it was created with, so the hash
+ * of each valid key is mapped to it in CONSUMER_KV under `apiKey:<hash>`.
+ * Returns null if the key is unknown, has been rotated out or revoked.
+ */
+export async function getConsumerStub(env: Env, apiKey: string) {
+  const apiKeyHash = await hashAPIKey(env, apiKey);
+  // Consumers created before keys were hashed have no mapping yet, as they are
+  // named after their plaintext key. They are moved on their first request.
+  const objectName =
+    (await env.CONSUMER_KV.get(`apiKey:${apiKeyHash}`)) ?? apiKey;
+  const stub = await getStubForObjectName(env, objectName);
+  if (!stub || !(await stub.isValidAPIKey(apiKeyHash))) {
+    return null;
+  }
+  return stub;
+}
+
+// Gets the Consumer Durable Object stub for a consumer name, or null if there is no such consumer
+export async function getConsumerStubByName(env: Env, consumerName: string) {
+  const objectName = await env.CONSUMER_KV.get(`consumer:${consumerName}`);
+  if (!objectName) {
+    return null;
+  }
+  return getStubForObjectName(env, objectName);
+}
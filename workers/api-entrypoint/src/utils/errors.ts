@@ -0,0 +1,85 @@
+import { Context } from "hono";
+import { ErrorType } from "@workspace/shared-types";
+
+/**
+ * Stable error codes returned by the API, with their HTTP status.
+ * Clients branch on these, so existing codes must never be renamed or removed.
+ */
+export const ERROR_CODES = {
+  INVALID_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CHECK_NOT_FOUND: 404,
+  SUBMISSION_NOT_FOUND: 404,
+  CONSUMER_NOT_FOUND: 404,
+  WEBHOOK_NOT_FOUND: 404,
+  CONFLICT: 409,
+  PREPROCESSING_FAILED: 422,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  INTERNAL_ERROR: 500,
+  CHECK_FAILED: 502,
+  UPSTREAM_ERROR: 502,
+  UPSTREAM_TIMEOUT: 504,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export const ERROR_CODE_NAMES = Object.keys(ERROR_CODES) as [
+  ErrorCode,
+  ...ErrorCode[]
+];
+
+// The body of every error response
+export function errorBody(code: ErrorCode, message: string, details?: unknown) {
+  return {
+    success: false as const,
+    error: {
+      code,
+      message,
+      ...(details !== undefined && { details }),
+    },
+  };
+}
+
+// Responds with an error, using the HTTP status of its code
+export function errorResponse(
+  c: Context,
+  code: ErrorCode,
+  message: string,
+  details?: unknown
+) {
+  return c.json(errorBody(code, message, details), ERROR_CODES[code]);
+}
+
+// Maps the generation status of a failed check onto an error code
+export function getErrorCodeForErrorType(
+  errorType: ErrorType | string | undefined
+): ErrorCode {
+  switch (errorType) {
+    case "error-preprocessing":
+      return "PREPROCESSING_FAILED";
+    case "error":
+    case "error-agentLoop":
+    case "error-summarization":
+    case "error-translation":
+    case "error-other":
+      return "CHECK_FAILED";
+    default:
+      return "INTERNAL_ERROR";
+  }
+}
+
+// Maps an error thrown while calling another service onto an error code
+export function getErrorCodeForError(error: unknown): ErrorCode {
+  if (
+    error instanceof Error &&
+    (error.name === "TimeoutError" ||
+      error.name === "AbortError" ||
+      /timed? ?out/i.test(error.message))
+  ) {
+    return "UPSTREAM_TIMEOUT";
+  }
+  return "INTERNAL_ERROR";
+}
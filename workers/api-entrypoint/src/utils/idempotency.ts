@@ -0,0 +1,128 @@
+import { Context } from "hono";
+import { createLogger, hashText } from "@workspace/shared-utils";
+import { SubmissionStatusResult } from "@workspace/shared-types";
+import { getConsumerStubByName } from "./consumer";
+import { errorResponse } from "./errors";
+
+const logger = createLogger("idempotency");
+
+// Whether a response is final, so retries should get it rather than run again
+function isReplayable(status: number, body: string) {
+  if (status !== 200 && status !== 202) {
+    return false;
+  }
+  try {
+    return JSON.parse(body)?.success !== false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The submission of an in-flight request, as returned for async requests,
+ * or a 409 if it has not been recorded yet
+ */
+async function inFlightResponse(
+  c: Context,
+  consumerName: string,
+  requestId: string
+) {
+  const submissionResult =
+    await c.env.DATABASE_SERVICE.findSubmissionByRequestId(
+      consumerName,
+      requestId
+    );
+  if (submissionResult.success && submissionResult.data) {
+    const statusResult: SubmissionStatusResult =
+      await c.env.AI_CHECKER_SERVICE.getSubmission(
+        submissionResult.data._id,
+        consumerName
+      );
+    if (statusResult.success) {
+      const { submissionId, checkId, checkStatus, generationStatus } =
+        statusResult.result;
+      return c.json(
+        {
+          success: true,
+          id: checkId,
+          result: { submissionId, checkId, checkStatus, generationStatus },
+        },
+        202
+      );
+    }
+  }
+  c.header("Retry-After", "1");
+  return errorResponse(
+    c,
+    "CONFLICT",
+    "A request with this x-request-id is still being processed"
+  );
+}
+
+/**
+ * Runs a submission at most once per consumer and x-request-id within the
+ * idempotency window. Retries get the first request's response, or its
+ * submission while it is in flight. Reusing a request id with a different
+ * body, or on a different endpoint, is rejected with a 409. The claim of a
+ * request that was cancelled before finishing lapses after a few minutes.
+ * Requests without a request id or consumer always run.
+ */
+export async function withIdempotency(
+  c: Context,
+  requestId: string | null | undefined,
+  body: unknown,
+  run: () => Promise<Response>
+): Promise<Response> {
+  const consumerName = c.get("consumerName");
+  if (!requestId || !consumerName) {
+    return run();
+  }
+  const stub = await getConsumerStubByName(c.env, consumerName);
+  if (!stub) {
+    return run();
+  }
+
+  const childLogger = logger.child({ consumerName, requestId });
+  const bodyHash = await hashText(`${c.req.path}\n${JSON.stringify(body)}`);
+  const claim = await stub.claimIdempotencyKey(requestId, bodyHash);
+  c.header("x-request-id", requestId);
+
+  switch (claim.outcome) {
+    case "conflict":
+      childLogger.warn("Request id reused with a different body");
+      return errorResponse(
+        c,
+        "CONFLICT",
+        "This x-request-id was already used for a request with a different body"
+      );
+    case "in-flight":
+      childLogger.info("Repeated request is still in flight");
+      return inFlightResponse(c, consumerName, requestId);
+    case "completed":
+      childLogger.info("Replaying the response to the first request");
+      c.header("Idempotent-Replayed", "true");
+      return c.body(claim.response.body, claim.response.status as 200 | 202, {
+        "Content-Type": "application/json",
+      });
+  }
+
+  let response: Response;
+  try {
+    response = await run();
+  } catch (error) {
+    await stub.releaseIdempotencyKey(requestId);
+    throw error;
+  }
+
+  const responseBody = await response.clone().text();
+  if (isReplayable(response.status, responseBody)) {
+    await stub.completeIdempotencyKey(requestId, {
+      status: response.status,
+      body: responseBody,
+    });
+  } else {
+    // Failed requests can be retried with the same request id
+    await stub.releaseIdempotencyKey(requestId);
+  }
+  return response;
+}
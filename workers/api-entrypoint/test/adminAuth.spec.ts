@@ -0,0 +1,135 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { sign } from "hono/jwt";
+import type { HonoJsonWebKey } from "hono/utils/jwt/jws";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { verifyAccessJwt } from "../src/middleware/adminAuth";
+
+const TEAM_DOMAIN = "https://example.cloudflareaccess.com";
+const AUD = "test-aud";
+const KID = "test-kid";
+
+let server: Server;
+let env: Env;
+let privateKey: HonoJsonWebKey;
+
+async function generateSigningKey(kid: string) {
+  const { publicKey, privateKey } = (await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"]
+  )) as CryptoKeyPair;
+  return {
+    publicJwk: {
+      ...(await crypto.subtle.exportKey("jwk", publicKey)),
+      kid,
+      alg: "RS256",
+    } as HonoJsonWebKey,
+    privateJwk: {
+      ...(await crypto.subtle.exportKey("jwk", privateKey)),
+      kid,
+      alg: "RS256",
+    } as HonoJsonWebKey,
+  };
+}
+
+function createToken(
+  claims: Record<string, unknown> = {},
+  key: HonoJsonWebKey = privateKey
+) {
+  const now = Math.floor(Date.now() / 1000);
+  return sign(
+    {
+      iss: TEAM_DOMAIN,
+      aud: [AUD],
+      email: "admin@example.com",
+      iat: now,
+      exp: now + 60,
+      ...claims,
+    },
+    key
+  );
+}
+
+beforeAll(async () => {
+  const { publicJwk, privateJwk } = await generateSigningKey(KID);
+  privateKey = privateJwk;
+
+  // Serves the JWKS that Cloudflare Access would serve for the team domain
+  server = createServer((_, res) => {
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ keys: [publicJwk] }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  env = {
+    CF_ACCESS_TEAM_DOMAIN: TEAM_DOMAIN,
+    CF_ACCESS_AUD: AUD,
+    CF_ACCESS_JWKS_URL: `http://127.0.0.1:${port}`,
+  } as Env;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("verifyAccessJwt", () => {
+  it("returns the identity of a valid token", async () => {
+    await expect(verifyAccessJwt(env, await createToken())).resolves.toEqual({
+      type: "user",
+      id: "admin@example.com",
+    });
+  });
+
+  it("returns the common name of a service token", async () => {
+    const token = await createToken({
+      email: undefined,
+      common_name: "client-id.access",
+    });
+    await expect(verifyAccessJwt(env, token)).resolves.toEqual({
+      type: "service-token",
+      id: "client-id.access",
+    });
+  });
+
+  it("rejects a token from another issuer", async () => {
+    const token = await createToken({
+      iss: "https://other.cloudflareaccess.com",
+    });
+    await expect(verifyAccessJwt(env, token)).rejects.toThrow();
+  });
+
+  it("rejects a token for another audience", async () => {
+    const token = await createToken({ aud: ["other-aud"] });
+    await expect(verifyAccessJwt(env, token)).rejects.toThrow(
+      "Invalid audience"
+    );
+  });
+
+  it("rejects an expired token", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = await createToken({ iat: now - 120, exp: now - 60 });
+    await expect(verifyAccessJwt(env, token)).rejects.toThrow();
+  });
+
+  it("rejects a token signed by an unknown key", async () => {
+    const { privateJwk } = await generateSigningKey("unknown-kid");
+    const token = await createToken({}, privateJwk);
+    await expect(verifyAccessJwt(env, token)).rejects.toThrow(
+      "No matching signing key"
+    );
+  });
+
+  it("rejects every token when the audience is not configured", async () => {
+    const token = await createToken({ aud: undefined });
+    await expect(
+      verifyAccessJwt({ ...env, CF_ACCESS_AUD: "" }, token)
+    ).rejects.toThrow("Cloudflare Access is not configured");
+  });
+});
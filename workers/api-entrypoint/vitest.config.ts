@@ -0,0 +1,19 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Wrangler resolves these through the paths in the root tsconfig
+    alias: {
+      "@workspace/shared-utils": fileURLToPath(
+        new URL("../../shared/utils", import.meta.url)
+      ),
+      "@workspace/shared-types": fileURLToPath(
+        new URL("../../shared/types", import.meta.url)
+      ),
+    },
+  },
+  test: {
+    environment: "node",
+  },
+});
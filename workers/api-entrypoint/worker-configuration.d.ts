@@ -1,17 +1,39 @@
 // Generated by Wrangler by running `wrangler types`
 
+// Generic database service types that allows any number of parameters
+type DatabaseServiceMethod<TResult = any> = (
+  ...args: any[]
+) => Promise<TResult>;
+
+type DatabaseServiceMethods = Record<string, DatabaseServiceMethod>;
+
 interface Env {
-  EMBEDDER_SERVICE: Fetcher;
+  EMBEDDER_SERVICE: Service<import("../embedder-service/src/index").default>;
   AGENT_SERVICE: Fetcher;
-  TRIVIAL_FILTER_SERVICE: Fetcher;
-  BLACKLIST_SERVICE: Fetcher;
+  TRIVIAL_FILTER_SERVICE: Service<
+    import("../trivialfilter-service/src/index").default
+  >;
+  BLACKLIST_SERVICE: Service<import("../blacklist-service/src/index").default>;
   CONSUMER: DurableObjectNamespace<
     import("./src/durable-objects/consumer").Consumer
   >;
   CONSUMER_KV: KVNamespace;
+  // Secret used to salt API key hashes
+  API_KEY_SALT: string;
+  // Cloudflare Access team domain, e.g. https://<team>.cloudflareaccess.com
+  CF_ACCESS_TEAM_DOMAIN: string;
+  // Application Audience (AUD) tag of the Cloudflare Access application
+  CF_ACCESS_AUD: string;
+  // Overrides the JWKS URL, e.g. to test against a locally served JWKS
+  CF_ACCESS_JWKS_URL?: string;
   NOTIFICATION_SERVICE: Fetcher;
   POLL_UPDATE_QUEUE: Queue<unknown>;
-  AI_CHECKER_SERVICE: Fetcher;
+  AI_CHECKER_SERVICE: Service<
+    import("../ai-checker-service/src/index").default
+  >;
   CHECKS_SERVICE: Fetcher;
+  CONSUMER_WEBHOOK_DELIVERY_QUEUE: Queue<unknown>;
+  IMAGE_HASH_SERVICE: Fetcher;
   // Service bindings with custom methods
+  DATABASE_SERVICE: DatabaseServiceMethods & ServiceWorkerGlobalScope;
 }
@@ -3,16 +3,22 @@
  *
  * This worker manages phone number blacklists with two main operations:
  * 1. Update the entire blacklist (replaces the previous list)
- * 2. Check if a phone number is blacklisted
+ * 2. Check if one or more phone numbers are blacklisted
+ * 3. Report the age and size of the current blacklist, for health checks
+ *
+ * Phone numbers are normalized to E.164 on both update and lookup, so
+ * different ways of writing the same number match.
  *
  * Uses Cloudflare KV for storage with versioning to handle updates atomically.
  */
 
 import { WorkerEntrypoint } from "cloudflare:workers";
-import { createLogger } from "@workspace/shared-utils";
+import { createLogger, normalizePhoneNumber } from "@workspace/shared-utils";
 
 // Constants
 const BLACKLIST_KEY = "blacklist:data";
+// Version, upload time and size of the blacklist, so they can be read without the numbers
+const BLACKLIST_STATUS_KEY = "blacklist:status";
 const TTL_SECONDS = 7 * 24 * 60 * 60; // 1 week
 
 // Types
@@ -29,10 +35,33 @@ interface UpdateBlacklistResponse {
 
 interface CheckBlacklistResponse {
   isBlacklisted: boolean;
+  normalizedPhone?: string | null;
   version?: string;
   error?: string;
 }
 
+interface BlacklistLookupResult {
+  phone: string;
+  normalizedPhone: string | null;
+  isBlacklisted: boolean;
+}
+
+interface BatchCheckBlacklistResponse {
+  results: BlacklistLookupResult[];
+  version?: string;
+  error?: string;
+}
+
+type BlacklistStatusResponse =
+  | { version: string; updatedAt: string; count: number }
+  | { error: string };
+
+interface BlacklistStatus {
+  version: string;
+  timestamp: number;
+  count: number;
+}
+
 interface BlacklistData {
   version: string;
   timestamp: number;
@@ -40,6 +69,12 @@ interface BlacklistData {
   phoneNumbers: Set<string>;
 }
 
+function normalizePhoneNumbers(phoneNumbers: string[]) {
+  return phoneNumbers
+    .map(normalizePhoneNumber)
+    .filter((phone): phone is string => phone !== null);
+}
+
 export default class extends WorkerEntrypoint<Env> {
   private logger = createLogger("blacklist-service");
 
@@ -74,14 +109,14 @@ export default class extends WorkerEntrypoint<Env> {
       const startTime = Date.now();
       const version = Date.now().toString();
 
-      // Deduplicate and clean phone numbers
-      const uniquePhones = [
-        ...new Set(phoneNumbers.map((phone) => phone.trim())),
-      ];
+      // Normalize and deduplicate phone numbers, dropping any without digits
+      const normalizedPhones = normalizePhoneNumbers(phoneNumbers);
+      const uniquePhones = [...new Set(normalizedPhones)];
 
       this.logger.info(
         {
           count: uniquePhones.length,
+          invalidCount: phoneNumbers.length - normalizedPhones.length,
           version,
         },
         "Starting blacklist update"
@@ -100,6 +135,11 @@ export default class extends WorkerEntrypoint<Env> {
         JSON.stringify(blacklistData),
         { expirationTtl: TTL_SECONDS }
       );
+      await this.putBlacklistStatus({
+        version,
+        timestamp: blacklistData.timestamp,
+        count: blacklistData.count,
+      });
 
       const duration = Date.now() - startTime;
       this.logger.info(
@@ -126,35 +166,133 @@ export default class extends WorkerEntrypoint<Env> {
   }
 
   /**
-   * Checks if a phone number is in the current blacklist
-   * Uses versioning to ensure consistency
+   * Gets the current blacklist, or null if none has been set yet
    */
-  async lookupBlacklist(phone: string): Promise<CheckBlacklistResponse> {
+  private async getBlacklist(): Promise<Pick<
+    BlacklistData,
+    "version" | "phoneNumbers"
+  > | null> {
+    const blacklistJson = await this.env.SCAMSHIELD_BLACKLIST_KV.get(
+      BLACKLIST_KEY
+    );
+    if (!blacklistJson) {
+      return null;
+    }
+    const blacklistData = JSON.parse(blacklistJson);
+    return {
+      version: blacklistData.version,
+      // Lists stored before normalization was added are normalized here
+      phoneNumbers: new Set(normalizePhoneNumbers(blacklistData.phoneNumbers)),
+    };
+  }
+
+  /**
+   * Gets when the current blacklist was uploaded and how many numbers it
+   * holds, without loading the numbers. Used by health checks.
+   */
+  async getBlacklistStatus(): Promise<BlacklistStatusResponse> {
     try {
-      // Get the blacklist data
-      const blacklistJson = await this.env.SCAMSHIELD_BLACKLIST_KV.get(
-        BLACKLIST_KEY
+      let status = await this.env.SCAMSHIELD_BLACKLIST_KV.get<BlacklistStatus>(
+        BLACKLIST_STATUS_KEY,
+        "json"
       );
+      if (!status) {
+        // Blacklists uploaded before the status key existed only have the data key
+        const blacklistJson = await this.env.SCAMSHIELD_BLACKLIST_KV.get(
+          BLACKLIST_KEY
+        );
+        if (!blacklistJson) {
+          return { error: "No blacklist configured" };
+        }
+        const { version, timestamp, count } = JSON.parse(blacklistJson);
+        status = { version, timestamp, count };
+        await this.putBlacklistStatus(status);
+      }
+      return {
+        version: status.version,
+        updatedAt: new Date(status.timestamp).toISOString(),
+        count: status.count,
+      };
+    } catch (error) {
+      this.logger.error({ error }, "Failed to get blacklist status");
+      return {
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  // Expires with the blacklist it describes
+  private async putBlacklistStatus(status: BlacklistStatus) {
+    // KV rejects expirations less than a minute away
+    const expirationTtl = Math.max(
+      60,
+      Math.floor((status.timestamp - Date.now()) / 1000) + TTL_SECONDS
+    );
+    await this.env.SCAMSHIELD_BLACKLIST_KV.put(
+      BLACKLIST_STATUS_KEY,
+      JSON.stringify(status),
+      { expirationTtl }
+    );
+  }
+
+  /**
+   * Checks if a phone number is in the current blacklist
+   */
+  async lookupBlacklist(phone: string): Promise<CheckBlacklistResponse> {
+    const { results, version, error } = await this.lookupBlacklistBatch([
+      phone,
+    ]);
+    return {
+      isBlacklisted: results[0]?.isBlacklisted ?? false,
+      normalizedPhone: results[0]?.normalizedPhone ?? null,
+      version,
+      error,
+    };
+  }
 
-      if (!blacklistJson) {
+  /**
+   * Checks which of the phone numbers are in the current blacklist,
+   * reading the blacklist once for all of them
+   */
+  async lookupBlacklistBatch(
+    phones: string[]
+  ): Promise<BatchCheckBlacklistResponse> {
+    const notBlacklisted = () =>
+      phones.map((phone) => ({
+        phone,
+        normalizedPhone: normalizePhoneNumber(phone),
+        isBlacklisted: false,
+      }));
+    try {
+      const blacklist = await this.getBlacklist();
+      if (!blacklist) {
         // No blacklist has been set yet
         return {
-          isBlacklisted: false,
+          results: notBlacklisted(),
           error: "No blacklist configured",
         };
       }
 
-      const blacklistData = JSON.parse(blacklistJson);
-      const phoneNumbers = new Set(blacklistData.phoneNumbers);
-
       return {
-        isBlacklisted: phoneNumbers.has(phone.trim()),
-        version: blacklistData.version,
+        results: phones.map((phone) => {
+          const normalizedPhone = normalizePhoneNumber(phone);
+          return {
+            phone,
+            normalizedPhone,
+            isBlacklisted:
+              normalizedPhone !== null &&
+              blacklist.phoneNumbers.has(normalizedPhone),
+          };
+        }),
+        version: blacklist.version,
       };
     } catch (error) {
-      this.logger.error({ error, phone }, "Failed to check blacklist");
+      this.logger.error(
+        { error, count: phones.length },
+        "Failed to check blacklist"
+      );
       return {
-        isBlacklisted: false,
+        results: notBlacklisted(),
         error: error instanceof Error ? error.message : "Unknown error",
       };
     }
@@ -1,8 +1,16 @@
 import { createLogger } from "@workspace/shared-utils";
 import {
   CheckUpdate,
+  CheckLifecycleEvent,
+  CheckLifecycleEventType,
   ServiceResponse,
   ErrorResponse,
+  FeedbackSummary,
+  HumanNote,
+  HumanNoteUpdate,
+  SubmissionFeedback,
+  TranslatedLanguage,
+  TranslationResult,
 } from "@workspace/shared-types";
 import { WorkerEntrypoint } from "cloudflare:workers";
 
@@ -21,6 +29,10 @@ import { WorkerEntrypoint } from "cloudflare:workers";
 
 /** A Durable Object's behavior is defined in an exported Javascript class */
 
+const TRANSLATED_LANGUAGES: TranslatedLanguage[] = ["cn", "ms", "id", "ta"];
+// Used when FEEDBACK_DOWNVOTE_THRESHOLD is unset or not a positive integer
+const DEFAULT_FEEDBACK_DOWNVOTE_THRESHOLD = 5;
+
 export default class extends WorkerEntrypoint<Env> {
   private logger = createLogger("checks-service");
 
@@ -62,29 +74,133 @@ export default class extends WorkerEntrypoint<Env> {
     }
   }
 
-  async updateHumanResponse(
+  // Queues a check event for delivery to the webhooks of consumers who submitted the check
+  private async sendConsumerWebhookEvent(
+    checkId: string,
+    type: CheckLifecycleEventType,
+    data?: Record<string, unknown>
+  ) {
+    const event: CheckLifecycleEvent = {
+      checkId,
+      type,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+    try {
+      await this.env.CONSUMER_WEBHOOK_EVENTS_QUEUE.send(event);
+    } catch (error) {
+      this.logger.error(
+        { error, checkId, type },
+        "Failed to send consumer webhook event"
+      );
+    }
+  }
+
+  // Whether end users downvoted a check's community note through feedback
+  private async isDownvotedByFeedback(checkId: string) {
+    const checkResult = await this.env.DATABASE_SERVICE.findCheckById(checkId);
+    return checkResult.data?.shortformResponse?.downvotedByFeedback === true;
+  }
+
+  // Announces that a check's community note was downvoted
+  private async handleDownvoted(
+    checkId: string,
+    communityNoteNotificationId: number | null
+  ) {
+    await this.env.CORE_CHECK_EVENTS_QUEUE.send({
+      checkId,
+      type: "downvoted",
+    });
+    await this.sendConsumerWebhookEvent(checkId, "downvoted");
+
+    // Send community note downvote notification
+    if (communityNoteNotificationId) {
+      try {
+        await this.env.NOTIFICATION_SERVICE.sendCommunityNoteDownvoteNotification(
+          {
+            id: checkId,
+            replyToMessageId: communityNoteNotificationId,
+          }
+        );
+      } catch (error) {
+        this.logger.error(
+          { error, checkId },
+          "Failed to send community note downvote notification"
+        );
+      }
+    }
+  }
+
+  /**
+   * Translates the English human note into the languages the checker left
+   * out. Languages that fail to translate stay empty.
+   */
+  private async translateHumanNote(
     checkId: string,
-    humanNote: {
-      en: string | null;
-      cn: string | null;
-      links: string[] | null;
-      updatedBy: string;
+    humanNote: HumanNoteUpdate
+  ): Promise<Partial<Record<TranslatedLanguage, string>>> {
+    const missingLanguages = TRANSLATED_LANGUAGES.filter(
+      (language) => !humanNote[language]
+    );
+    if (
+      !humanNote.en ||
+      humanNote.autoTranslate === false ||
+      missingLanguages.length === 0
+    ) {
+      return {};
     }
-  ): Promise<ServiceResponse | ErrorResponse> {
+    try {
+      // The RPC types drop ErrorResponse, whose details are not serializable
+      const result = (await this.env.AI_CHECKER_SERVICE.translate(
+        humanNote.en,
+        missingLanguages
+      )) as TranslationResult;
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+      return result.result;
+    } catch (error) {
+      this.logger.error(
+        { checkId, error, missingLanguages },
+        "Failed to translate human note"
+      );
+      return {};
+    }
+  }
+
+  async updateHumanResponse(
+    checkId: string,
+    humanNote: HumanNoteUpdate
+  ): Promise<
+    | (ServiceResponse & { machineTranslated: TranslatedLanguage[] })
+    | ErrorResponse
+  > {
     try {
       this.logger.info({ checkId, humanNote }, "Updating human response");
 
-      const humanResponse = {
+      const translations = await this.translateHumanNote(checkId, humanNote);
+      const machineTranslated = TRANSLATED_LANGUAGES.filter(
+        (language) => translations[language]
+      );
+      const humanResponse: HumanNote = {
         en: humanNote.en,
-        cn: humanNote.cn,
+        cn: humanNote.cn || translations.cn || null,
+        ms: humanNote.ms || translations.ms || null,
+        id: humanNote.id || translations.id || null,
+        ta: humanNote.ta || translations.ta || null,
         links: humanNote.links,
         timestamp: new Date(),
         updatedBy: humanNote.updatedBy,
+        machineTranslated,
       };
 
-      const result = await this.env.DATABASE_SERVICE.updateCheck(checkId, {
-        humanResponse,
-      });
+      const result = await this.env.DATABASE_SERVICE.updateCheck(
+        checkId,
+        {
+          humanResponse,
+        },
+        humanNote.updatedBy
+      );
 
       if (!result.success) {
         throw new Error("Failed to update human response");
@@ -92,8 +208,13 @@ export default class extends WorkerEntrypoint<Env> {
 
       this.logger.info({ checkId }, "Human response updated successfully");
 
+      await this.sendConsumerWebhookEvent(checkId, "humanNoteUpdated", {
+        updatedBy: humanNote.updatedBy,
+      });
+
       return {
         success: true,
+        machineTranslated,
       };
     } catch (error) {
       const errorMessage =
@@ -112,20 +233,123 @@ export default class extends WorkerEntrypoint<Env> {
     }
   }
 
+  // How many users must find a community note not helpful before it is downvoted
+  private getFeedbackDownvoteThreshold() {
+    if (!this.env.FEEDBACK_DOWNVOTE_THRESHOLD) {
+      return DEFAULT_FEEDBACK_DOWNVOTE_THRESHOLD;
+    }
+    const threshold = Number(this.env.FEEDBACK_DOWNVOTE_THRESHOLD);
+    if (!Number.isInteger(threshold) || threshold < 1) {
+      this.logger.warn(
+        { threshold: this.env.FEEDBACK_DOWNVOTE_THRESHOLD },
+        "Invalid FEEDBACK_DOWNVOTE_THRESHOLD, using the default"
+      );
+      return DEFAULT_FEEDBACK_DOWNVOTE_THRESHOLD;
+    }
+    return threshold;
+  }
+
+  /**
+   * Records end-user feedback on a community note. Once enough users found
+   * the note not helpful, and they outnumber those who found it helpful, the
+   * note is downvoted as if by a checker.
+   */
+  async recordFeedback(
+    feedback: SubmissionFeedback
+  ): Promise<
+    | (ServiceResponse & { summary: FeedbackSummary; downvoted: boolean })
+    | ErrorResponse
+  > {
+    const { checkId } = feedback;
+    try {
+      const upsertResult =
+        await this.env.DATABASE_SERVICE.upsertSubmissionFeedback(feedback);
+      if (!upsertResult.success) {
+        throw new Error(upsertResult.error || "Failed to save feedback");
+      }
+
+      const summaryResult = await this.env.DATABASE_SERVICE.getFeedbackSummary(
+        checkId
+      );
+      if (!summaryResult.success || !summaryResult.data) {
+        throw new Error(summaryResult.error || "Failed to get feedback");
+      }
+      const summary: FeedbackSummary = summaryResult.data;
+
+      const threshold = this.getFeedbackDownvoteThreshold();
+      const downvoted =
+        summary.notHelpful >= threshold && summary.notHelpful > summary.helpful;
+      if (downvoted) {
+        const result = await this.env.DATABASE_SERVICE.updateCheckWithChanges(
+          checkId,
+          {
+            "shortformResponse.downvoted": true,
+            "shortformResponse.downvotedByFeedback": true,
+          },
+          "user-feedback"
+        );
+        if (result.success && result.changes?.becameDownvoted) {
+          this.logger.info(
+            { checkId, summary },
+            "Community note downvoted by user feedback"
+          );
+          const checkResult = await this.env.DATABASE_SERVICE.findCheckById(
+            checkId
+          );
+          await this.handleDownvoted(
+            checkId,
+            checkResult.data?.communityNoteNotificationId ?? null
+          );
+        }
+      }
+
+      this.logger.info(
+        { checkId, submissionId: feedback.submissionId, summary },
+        "Feedback recorded"
+      );
+      return {
+        success: true,
+        summary,
+        downvoted,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error(
+        { checkId, error, errorMessage },
+        "Error recording feedback"
+      );
+
+      return {
+        success: false,
+        error: {
+          message: errorMessage,
+        },
+      };
+    }
+  }
+
   async queue(batch: MessageBatch<unknown>): Promise<void> {
     this.logger.info({ batch }, "Consuming from queue");
     const messages = batch.messages;
     for (const message of messages) {
       const update = message.body as CheckUpdate;
 
+      const data: Record<string, unknown> = {
+        isHumanAssessed: update.isHumanAssessed ?? false,
+        crowdsourcedCategory: update.crowdsourcedCategory ?? "unsure",
+      };
+      // A note downvoted by user feedback stays downvoted, whatever checkers decide
+      if (update.isCommunityNoteDownvoted != null) {
+        data["shortformResponse.downvoted"] =
+          update.isCommunityNoteDownvoted ||
+          (await this.isDownvotedByFeedback(update.id));
+      }
+
       const result = await this.env.DATABASE_SERVICE.updateCheckWithChanges(
         update.id,
-        {
-          isHumanAssessed: update.isHumanAssessed ?? false,
-          "shortformResponse.downvoted":
-            update.isCommunityNoteDownvoted ?? false,
-          crowdsourcedCategory: update.crowdsourcedCategory ?? "unsure",
-        }
+        data,
+        update.updatedBy ?? "poll-update"
       );
 
       if (result.success && result.changes) {
@@ -154,6 +378,9 @@ export default class extends WorkerEntrypoint<Env> {
             checkId: update.id,
             type: "assessed",
           });
+          await this.sendConsumerWebhookEvent(update.id, "assessed", {
+            crowdsourcedCategory: update.crowdsourcedCategory ?? "unsure",
+          });
 
           // Send newly assessed notification
           if (notificationId) {
@@ -175,27 +402,15 @@ export default class extends WorkerEntrypoint<Env> {
         }
 
         if (result.changes.becameDownvoted) {
-          await this.env.CORE_CHECK_EVENTS_QUEUE.send({
-            checkId: update.id,
-            type: "downvoted",
-          });
+          await this.handleDownvoted(update.id, communityNoteNotificationId);
+        }
 
-          // Send community note downvote notification
-          if (communityNoteNotificationId) {
-            try {
-              await this.env.NOTIFICATION_SERVICE.sendCommunityNoteDownvoteNotification(
-                {
-                  id: update.id,
-                  replyToMessageId: communityNoteNotificationId,
-                }
-              );
-            } catch (error) {
-              this.logger.error(
-                { error, checkId: update.id },
-                "Failed to send community note downvote notification"
-              );
-            }
-          }
+        if (result.changes.crowdsourcedCategoryChanged) {
+          await this.sendConsumerWebhookEvent(update.id, "categoryChanged", {
+            previousCategory:
+              result.changes.previousCrowdsourcedCategory ?? null,
+            currentCategory: result.changes.currentCrowdsourcedCategory ?? null,
+          });
         }
 
         // Send category change notification (only if not newly assessed, to avoid duplicate info)
@@ -12,6 +12,12 @@ type DatabaseServiceMethods = Record<string, DatabaseServiceMethod>;
 interface Env {
   DATABASE_SERVICE: DatabaseServiceMethods & ServiceWorkerGlobalScope;
   NOTIFICATION_SERVICE: NotificationServiceMethods & ServiceWorkerGlobalScope;
+  AI_CHECKER_SERVICE: Service<
+    import("../ai-checker-service/src/index").default
+  >;
 
   CORE_CHECK_EVENTS_QUEUE: Queue<unknown>;
+  CONSUMER_WEBHOOK_EVENTS_QUEUE: Queue<unknown>;
+
+  FEEDBACK_DOWNVOTE_THRESHOLD?: string;
 }
@@ -271,6 +271,7 @@ export default class extends WorkerEntrypoint<Env> {
                 tags,
                 hasVerdicts,
               },
+              screenshotKey,
             },
             id: request.id,
           };
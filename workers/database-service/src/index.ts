@@ -7,11 +7,81 @@
 import { MongoClient, ObjectId } from "mongodb";
 import { DurableObject, WorkerEntrypoint } from "cloudflare:workers";
 import { createLogger } from "@workspace/shared-utils";
-import { Check, Submission } from "@workspace/shared-types";
+import {
+  Check,
+  CheckAuditEntry,
+  CheckFieldChange,
+  CheckTombstone,
+  FeedbackSummary,
+  SimilarCheckFilters,
+  Submission,
+  SubmissionFeedback,
+  SubmissionListOptions,
+  SubmissionWithCheck,
+} from "@workspace/shared-types";
 
 // Shared logger
 const logger = createLogger("database-service");
 
+// Embeddings and pipeline checkpoints are large and can be regenerated, so their changes are not audited
+const UNAUDITED_FIELD_PREFIXES = ["embeddings", "checkpoints", "auditVersion"];
+
+// Gets a possibly nested value by the dotted path used in $set
+function getFieldValue(doc: any, path: string) {
+  return path
+    .split(".")
+    .reduce((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+// Lists the fields of an update whose values differ from the document before it
+function getFieldChanges(
+  before: any,
+  data: Record<string, any>
+): CheckFieldChange[] {
+  const changes: CheckFieldChange[] = [];
+  for (const [field, after] of Object.entries(data)) {
+    if (UNAUDITED_FIELD_PREFIXES.some((prefix) => field.startsWith(prefix))) {
+      continue;
+    }
+    const previous = getFieldValue(before, field) ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(after ?? null)) {
+      changes.push({ field, before: previous, after: after ?? null });
+    }
+  }
+  return changes;
+}
+
+// Vector search can only pre-filter on indexed fields, so the date range and
+// categories are matched afterwards, on this many times the requested candidates
+const POST_FILTER_OVERFETCH = 10;
+
+/**
+ * Gets the vector search limit and the stages that apply the filters which
+ * are not indexed, trimming the results back to the requested limit
+ */
+function getPostFilterStages(limit: number, filters?: SimilarCheckFilters) {
+  const match: Record<string, unknown> = {};
+  if (filters?.from || filters?.to) {
+    match.timestamp = {
+      ...(filters.from && { $gte: new Date(filters.from) }),
+      ...(filters.to && { $lte: new Date(filters.to) }),
+    };
+  }
+  if (filters?.crowdsourcedCategory) {
+    match.crowdsourcedCategory = filters.crowdsourcedCategory;
+  }
+  if (filters?.machineCategory) {
+    match.machineCategory = filters.machineCategory;
+  }
+  if (Object.keys(match).length === 0) {
+    return { searchLimit: limit, stages: [] };
+  }
+  return {
+    searchLimit: limit * POST_FILTER_OVERFETCH,
+    stages: [{ $match: match }, { $limit: limit }],
+  };
+}
+
 /**
  * DatabaseDurableObject maintains a persistent MongoDB connection
  * This significantly improves performance by avoiding connection overhead
@@ -20,6 +90,9 @@ export class DatabaseDurableObject extends DurableObject<Env> {
   private client: MongoClient;
   private logger = createLogger("database-durable-object");
   private connectPromise: Promise<MongoClient>;
+  private submissionIndexesPromise: Promise<string> | null = null;
+  private checkIndexesPromise: Promise<string[]> | null = null;
+  private feedbackIndexesPromise: Promise<string> | null = null;
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
@@ -28,6 +101,20 @@ export class DatabaseDurableObject extends DurableObject<Env> {
     this.connectPromise = this.client.connect();
   }
 
+  // Pings MongoDB through the pooled connection, used by health checks
+  async ping(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.connectPromise;
+      await this.client.db("checkmate-core").command({ ping: 1 });
+      return { success: true };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error({ error, errorMessage }, "Failed to ping MongoDB");
+      return { success: false, error: errorMessage };
+    }
+  }
+
   async insertCheck(
     check: Omit<Check, "_id">,
     customId?: string
@@ -40,6 +127,17 @@ export class DatabaseDurableObject extends DurableObject<Env> {
       const objectId = customId ? new ObjectId(customId) : new ObjectId();
       const idString = objectId.toString();
 
+      // A check erased while its submission was queued must not be recreated
+      if (
+        customId &&
+        (await db.collection("checkTombstones").findOne({ _id: objectId }))
+      ) {
+        return {
+          success: false,
+          error: `Check with id ${idString} was erased`,
+        };
+      }
+
       await checksCollection.insertOne({
         ...check,
         _id: objectId,
@@ -92,6 +190,44 @@ export class DatabaseDurableObject extends DurableObject<Env> {
     }
   }
 
+  // Finds a check approved for publishing by its slug, for the public site
+  async findPublishedCheckBySlug(
+    slug: string
+  ): Promise<{ success: boolean; data?: Check; error?: string }> {
+    try {
+      await this.connectPromise;
+      await this.ensureCheckIndexes();
+      const db = this.client.db("checkmate-core");
+      const checksCollection = db.collection("checks");
+
+      const check = await checksCollection.findOne({
+        slug: slug,
+        isApprovedForPublishing: true,
+      });
+
+      if (!check) {
+        return {
+          success: false,
+          error: `Published check with slug ${slug} not found`,
+        };
+      }
+
+      // Convert _id to string for the external interface
+      return {
+        success: true,
+        data: {
+          ...check,
+          _id: check._id.toString(),
+        } as Check,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error({ error, slug }, "Failed to find check by slug");
+      return { success: false, error: errorMessage };
+    }
+  }
+
   async findCheckByTextHash(
     textHash: string
   ): Promise<{ success: boolean; data?: Check; error?: string }> {
@@ -182,25 +318,30 @@ export class DatabaseDurableObject extends DurableObject<Env> {
 
   async updateCheck(
     id: string,
-    data: Partial<Omit<Check, "_id">>
+    data: Partial<Omit<Check, "_id">>,
+    actor: string = "system"
   ): Promise<{ success: boolean; error?: string }> {
     try {
       await this.connectPromise;
       const db = this.client.db("checkmate-core");
       const checksCollection = db.collection("checks");
 
-      const result = await checksCollection.updateOne(
+      // Get the document before update atomically, for the audit trail
+      const result = await checksCollection.findOneAndUpdate(
         { _id: new ObjectId(id) },
-        { $set: data }
+        { $set: data, $inc: { auditVersion: 1 } },
+        { returnDocument: "before" }
       );
 
-      if (result.matchedCount === 0) {
+      if (!result) {
         return {
           success: false,
           error: `Check with id ${id} not found`,
         };
       }
 
+      await this.insertCheckAudit(id, result, data, actor);
+
       return { success: true };
     } catch (error) {
       const errorMessage =
@@ -210,9 +351,46 @@ export class DatabaseDurableObject extends DurableObject<Env> {
     }
   }
 
+  /**
+   * Updates a check only while its generation has errored, so that two
+   * retries of the same check cannot both queue it. updated is false if the
+   * check was no longer errored.
+   */
+  async updateErroredCheck(
+    id: string,
+    data: Partial<Omit<Check, "_id">>,
+    actor: string = "system"
+  ): Promise<{ success: boolean; updated?: boolean; error?: string }> {
+    try {
+      await this.connectPromise;
+      const db = this.client.db("checkmate-core");
+      const checksCollection = db.collection("checks");
+
+      const result = await checksCollection.findOneAndUpdate(
+        { _id: new ObjectId(id), generationStatus: { $regex: "^error" } },
+        { $set: data, $inc: { auditVersion: 1 } },
+        { returnDocument: "before" }
+      );
+
+      if (!result) {
+        return { success: true, updated: false };
+      }
+
+      await this.insertCheckAudit(id, result, data, actor);
+
+      return { success: true, updated: true };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error({ error, id, data }, "Failed to update errored check");
+      return { success: false, error: errorMessage };
+    }
+  }
+
   async updateCheckWithChanges(
     id: string,
-    data: Partial<Omit<Check, "_id">> & Record<string, any>
+    data: Partial<Omit<Check, "_id">> & Record<string, any>,
+    actor: string = "system"
   ): Promise<{
     success: boolean;
     error?: string;
@@ -232,7 +410,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
       // Get the document before update atomically
       const result = await checksCollection.findOneAndUpdate(
         { _id: new ObjectId(id) },
-        { $set: data },
+        { $set: data, $inc: { auditVersion: 1 } },
         { returnDocument: "before" }
       );
 
@@ -243,6 +421,8 @@ export class DatabaseDurableObject extends DurableObject<Env> {
         };
       }
 
+      await this.insertCheckAudit(id, result, data, actor);
+
       const oldDoc = result as any;
       const previousCategory = oldDoc.crowdsourcedCategory ?? null;
       const newCategory = data.crowdsourcedCategory;
@@ -282,6 +462,75 @@ export class DatabaseDurableObject extends DurableObject<Env> {
     }
   }
 
+  /**
+   * Records the fields an update changed, with their values before and after.
+   * The version is the check's auditVersion after the update, so it increases
+   * with every update, but updates that change nothing leave a gap.
+   * A failure is logged rather than failing the update, which already happened.
+   */
+  private async insertCheckAudit(
+    checkId: string,
+    before: any,
+    data: Record<string, any>,
+    actor: string
+  ) {
+    const changes = getFieldChanges(before, data);
+    if (changes.length === 0) {
+      return;
+    }
+    try {
+      const db = this.client.db("checkmate-core");
+      await db.collection("checkAudits").insertOne({
+        checkId: new ObjectId(checkId),
+        version: (before.auditVersion ?? 0) + 1,
+        actor,
+        timestamp: new Date(),
+        changes,
+      });
+    } catch (error) {
+      this.logger.error(
+        { error, checkId, actor, changes },
+        "Failed to insert check audit entry"
+      );
+    }
+  }
+
+  async findCheckAuditsByCheckId(
+    checkId: string
+  ): Promise<{ success: boolean; data?: CheckAuditEntry[]; error?: string }> {
+    try {
+      await this.connectPromise;
+      const db = this.client.db("checkmate-core");
+      const auditsCollection = db.collection("checkAudits");
+
+      const audits = await auditsCollection
+        .find({ checkId: new ObjectId(checkId) })
+        .sort({ version: 1 })
+        .toArray();
+
+      // Convert ObjectIds to strings for the external interface
+      return {
+        success: true,
+        data: audits.map(
+          (audit) =>
+            ({
+              ...audit,
+              _id: audit._id.toString(),
+              checkId: audit.checkId.toString(),
+            } as CheckAuditEntry)
+        ),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error(
+        { error, checkId },
+        "Failed to find check audit entries"
+      );
+      return { success: false, error: errorMessage };
+    }
+  }
+
   async deleteCheck(id: string): Promise<{ success: boolean; error?: string }> {
     try {
       await this.connectPromise;
@@ -308,6 +557,102 @@ export class DatabaseDurableObject extends DurableObject<Env> {
     }
   }
 
+  /**
+   * Returns the screenshot keys among the given ones that other checks use,
+   * as screenshots are cached by URL and shared between checks
+   */
+  async findSharedScreenshotKeys(
+    checkId: string,
+    screenshotKeys: string[]
+  ): Promise<{ success: boolean; data?: string[]; error?: string }> {
+    try {
+      await this.connectPromise;
+      await this.ensureCheckIndexes();
+      const db = this.client.db("checkmate-core");
+      const usedKeys: string[] = await db
+        .collection("checks")
+        .distinct("screenshotKeys", {
+          _id: { $ne: new ObjectId(checkId) },
+          screenshotKeys: { $in: screenshotKeys },
+        });
+      return {
+        success: true,
+        data: screenshotKeys.filter((key) => usedKeys.includes(key)),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error(
+        { error, checkId },
+        "Failed to find shared screenshot keys"
+      );
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Erases a check, deleting it with its submissions, their feedback and audit
+   * entries, and leaves a tombstone in its place. Erasing an erased check
+   * returns its tombstone again.
+   */
+  async eraseCheck(
+    id: string,
+    actor: string,
+    reason: string | null = null
+  ): Promise<{ success: boolean; data?: CheckTombstone; error?: string }> {
+    try {
+      await this.connectPromise;
+      const db = this.client.db("checkmate-core");
+      const checksCollection = db.collection("checks");
+      const tombstonesCollection = db.collection("checkTombstones");
+      const checkId = new ObjectId(id);
+
+      const check = await checksCollection.findOne(
+        { _id: checkId },
+        { projection: { _id: 1 } }
+      );
+      if (!check) {
+        const tombstone = await tombstonesCollection.findOne({ _id: checkId });
+        if (tombstone) {
+          return {
+            success: true,
+            data: { ...tombstone, _id: id } as CheckTombstone,
+          };
+        }
+        return {
+          success: false,
+          error: `Check with id ${id} not found`,
+        };
+      }
+
+      const submissionsResult = await db
+        .collection("submissions")
+        .deleteMany({ checkId });
+      // End users' feedback on the submissions goes with them
+      await db.collection("submissionFeedback").deleteMany({ checkId });
+      // Audit entries hold earlier values of the check, so they go too
+      await db.collection("checkAudits").deleteMany({ checkId });
+      await checksCollection.deleteOne({ _id: checkId });
+
+      const tombstone = {
+        erasedAt: new Date(),
+        erasedBy: actor,
+        reason,
+        submissionsDeleted: submissionsResult.deletedCount,
+      };
+      await tombstonesCollection.replaceOne({ _id: checkId }, tombstone, {
+        upsert: true,
+      });
+
+      return { success: true, data: { ...tombstone, _id: id } };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error({ error, id }, "Failed to erase check");
+      return { success: false, error: errorMessage };
+    }
+  }
+
   // Submission methods
   async insertSubmission(submission: Omit<Submission, "_id">): Promise<{
     success: boolean;
@@ -383,6 +728,48 @@ export class DatabaseDurableObject extends DurableObject<Env> {
     }
   }
 
+  async findSubmissionByRequestId(
+    consumerName: string,
+    requestId: string
+  ): Promise<{ success: boolean; data?: Submission; error?: string }> {
+    try {
+      await this.connectPromise;
+      const db = this.client.db("checkmate-core");
+      const submissionsCollection = db.collection("submissions");
+
+      // The most recent, if a request id was reused
+      const submission = await submissionsCollection.findOne(
+        { consumerName, requestId },
+        { sort: { timestamp: -1 } }
+      );
+
+      if (!submission) {
+        return {
+          success: false,
+          error: `Submission with requestId ${requestId} not found`,
+        };
+      }
+
+      // Convert _id and checkId to strings for the external interface
+      return {
+        success: true,
+        data: {
+          ...submission,
+          _id: submission._id.toString(),
+          checkId: submission.checkId ? submission.checkId.toString() : null,
+        } as Submission,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error(
+        { error, consumerName, requestId },
+        "Failed to find submission by request id"
+      );
+      return { success: false, error: errorMessage };
+    }
+  }
+
   async updateSubmission(
     id: string,
     data: Partial<Omit<Submission, "_id">>
@@ -480,16 +867,246 @@ export class DatabaseDurableObject extends DurableObject<Env> {
     }
   }
 
+  // Creates the indexes for finding checks by slug and screenshot, once per instance
+  private ensureCheckIndexes() {
+    if (!this.checkIndexesPromise) {
+      this.checkIndexesPromise = this.client
+        .db("checkmate-core")
+        .collection("checks")
+        .createIndexes([{ key: { slug: 1 } }, { key: { screenshotKeys: 1 } }])
+        .catch((error) => {
+          // Retried on the next lookup
+          this.checkIndexesPromise = null;
+          throw error;
+        });
+    }
+    return this.checkIndexesPromise;
+  }
+
+  // Creates the index for listing a consumer's submissions, once per instance
+  private ensureSubmissionIndexes() {
+    if (!this.submissionIndexesPromise) {
+      this.submissionIndexesPromise = this.client
+        .db("checkmate-core")
+        .collection("submissions")
+        .createIndex({ consumerName: 1, timestamp: -1, _id: -1 })
+        .catch((error) => {
+          // Retried on the next listing
+          this.submissionIndexesPromise = null;
+          throw error;
+        });
+    }
+    return this.submissionIndexesPromise;
+  }
+
+  // Creates the index for counting the feedback on a check, once per instance
+  private ensureFeedbackIndexes() {
+    if (!this.feedbackIndexesPromise) {
+      this.feedbackIndexesPromise = this.client
+        .db("checkmate-core")
+        .collection("submissionFeedback")
+        .createIndex({ checkId: 1, rating: 1 })
+        .catch((error) => {
+          // Retried on the next count
+          this.feedbackIndexesPromise = null;
+          throw error;
+        });
+    }
+    return this.feedbackIndexesPromise;
+  }
+
+  /**
+   * Lists a consumer's submissions, newest first, with the status, title and
+   * slug of each linked check
+   */
+  async findSubmissionsByConsumer(
+    consumerName: string,
+    options: SubmissionListOptions
+  ): Promise<{
+    success: boolean;
+    data?: SubmissionWithCheck[];
+    error?: string;
+  }> {
+    try {
+      await this.connectPromise;
+      await this.ensureSubmissionIndexes();
+      const db = this.client.db("checkmate-core");
+      const submissionsCollection = db.collection("submissions");
+
+      const filter: Record<string, any> = { consumerName };
+      if (options.checkStatus) {
+        filter.checkStatus = options.checkStatus;
+      }
+      if (options.type) {
+        filter.type = options.type;
+      }
+      if (options.from || options.to) {
+        filter.timestamp = {
+          ...(options.from && { $gte: new Date(options.from) }),
+          ...(options.to && { $lte: new Date(options.to) }),
+        };
+      }
+      if (options.after) {
+        // Submissions with the same timestamp are ordered by ID
+        const afterTimestamp = new Date(options.after.timestamp);
+        filter.$or = [
+          { timestamp: { $lt: afterTimestamp } },
+          {
+            timestamp: afterTimestamp,
+            _id: { $lt: new ObjectId(options.after.id) },
+          },
+        ];
+      }
+
+      const submissions = await submissionsCollection
+        .aggregate([
+          { $match: filter },
+          { $sort: { timestamp: -1, _id: -1 } },
+          { $limit: options.limit },
+          {
+            $lookup: {
+              from: "checks",
+              localField: "checkId",
+              foreignField: "_id",
+              pipeline: [
+                { $project: { generationStatus: 1, title: 1, slug: 1 } },
+              ],
+              as: "checks",
+            },
+          },
+        ])
+        .toArray();
+
+      const convertedSubmissions = submissions.map(
+        ({ checks, ...submission }) => ({
+          ...submission,
+          _id: submission._id.toString(),
+          checkId: submission.checkId ? submission.checkId.toString() : null,
+          check: checks[0]
+            ? {
+                generationStatus: checks[0].generationStatus,
+                title: checks[0].title,
+                slug: checks[0].slug,
+              }
+            : null,
+        })
+      ) as SubmissionWithCheck[];
+
+      return { success: true, data: convertedSubmissions };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error(
+        { error, consumerName },
+        "Failed to find submissions by consumer"
+      );
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Records an end user's feedback on a submission's community note,
+   * replacing any earlier feedback on the same submission
+   */
+  async upsertSubmissionFeedback(
+    feedback: SubmissionFeedback
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.connectPromise;
+      const db = this.client.db("checkmate-core");
+      const feedbackCollection = db.collection("submissionFeedback");
+
+      const { submissionId, checkId, ...rest } = feedback;
+      await feedbackCollection.replaceOne(
+        { _id: new ObjectId(submissionId) },
+        { ...rest, checkId: new ObjectId(checkId) },
+        { upsert: true }
+      );
+
+      return { success: true };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error({ error, feedback }, "Failed to upsert feedback");
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Counts the feedback on a check's community note across its submissions
+  async getFeedbackSummary(
+    checkId: string
+  ): Promise<{ success: boolean; data?: FeedbackSummary; error?: string }> {
+    try {
+      await this.connectPromise;
+      await this.ensureFeedbackIndexes();
+      const db = this.client.db("checkmate-core");
+      const feedbackCollection = db.collection("submissionFeedback");
+
+      const counts = await feedbackCollection
+        .aggregate([
+          { $match: { checkId: new ObjectId(checkId) } },
+          { $group: { _id: "$rating", count: { $sum: 1 } } },
+        ])
+        .toArray();
+      const countOf = (rating: string) =>
+        counts.find((count) => count._id === rating)?.count ?? 0;
+
+      return {
+        success: true,
+        data: {
+          helpful: countOf("helpful"),
+          notHelpful: countOf("notHelpful"),
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error({ error, checkId }, "Failed to get feedback summary");
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  async updateSubmissionsByCheckId(
+    checkId: string,
+    data: Partial<Omit<Submission, "_id" | "checkId">>
+  ): Promise<{ success: boolean; modifiedCount?: number; error?: string }> {
+    try {
+      await this.connectPromise;
+      const db = this.client.db("checkmate-core");
+      const submissionsCollection = db.collection("submissions");
+
+      const result = await submissionsCollection.updateMany(
+        { checkId: new ObjectId(checkId) },
+        { $set: data }
+      );
+
+      return { success: true, modifiedCount: result.modifiedCount };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      this.logger.error(
+        { error, checkId, data },
+        "Failed to update submissions by checkId"
+      );
+      return { success: false, error: errorMessage };
+    }
+  }
+
   // Vector search for similar checks by text embedding
   async findSimilarTextEmbedding(
     embedding: number[],
-    limit: number = 5
+    limit: number = 5,
+    filters?: SimilarCheckFilters
   ): Promise<{
     success: boolean;
     data?: Array<
       Pick<
         Check,
-        "text" | "timestamp" | "shortformResponse" | "crowdsourcedCategory"
+        | "text"
+        | "timestamp"
+        | "shortformResponse"
+        | "crowdsourcedCategory"
+        | "machineCategory"
       > & {
         id: string;
         score: number;
@@ -513,21 +1130,24 @@ export class DatabaseDurableObject extends DurableObject<Env> {
         isExpired: false,
       };
 
-      if (this.env.ENVIRONMENT === "production") {
+      if (this.env.ENVIRONMENT === "production" || filters?.humanAssessedOnly) {
         filter.isHumanAssessed = true;
       }
 
+      const { searchLimit, stages } = getPostFilterStages(limit, filters);
+
       const pipeline = [
         {
           $vectorSearch: {
             index: "text-embedding-index",
             queryVector: embedding,
             path: "embeddings.text",
-            numCandidates: limit * 10,
-            limit: limit,
+            numCandidates: searchLimit * 10,
+            limit: searchLimit,
             filter: filter,
           },
         },
+        ...stages,
         {
           $project: {
             _id: 1,
@@ -535,6 +1155,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
             timestamp: 1,
             shortformResponse: 1,
             crowdsourcedCategory: 1,
+            machineCategory: 1,
             score: { $meta: "vectorSearchScore" },
           },
         },
@@ -548,6 +1169,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
         timestamp: result.timestamp,
         shortformResponse: result.shortformResponse || {},
         crowdsourcedCategory: result.crowdsourcedCategory || null,
+        machineCategory: result.machineCategory || null,
         score: result.score,
       }));
 
@@ -566,7 +1188,8 @@ export class DatabaseDurableObject extends DurableObject<Env> {
   // Vector search for similar checks by caption embedding
   async findSimilarCaptionEmbedding(
     embedding: number[],
-    limit: number = 5
+    limit: number = 5,
+    filters?: SimilarCheckFilters
   ): Promise<{
     success: boolean;
     data?: Array<
@@ -578,6 +1201,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
         | "timestamp"
         | "shortformResponse"
         | "crowdsourcedCategory"
+        | "machineCategory"
       > & {
         id: string;
         score: number;
@@ -601,21 +1225,24 @@ export class DatabaseDurableObject extends DurableObject<Env> {
         isExpired: false,
       };
 
-      if (this.env.ENVIRONMENT === "production") {
+      if (this.env.ENVIRONMENT === "production" || filters?.humanAssessedOnly) {
         filter.isHumanAssessed = true;
       }
 
+      const { searchLimit, stages } = getPostFilterStages(limit, filters);
+
       const pipeline = [
         {
           $vectorSearch: {
             index: "caption-embedding-index",
             queryVector: embedding,
             path: "embeddings.caption",
-            numCandidates: limit * 10,
-            limit: limit,
+            numCandidates: searchLimit * 10,
+            limit: searchLimit,
             filter: filter,
           },
         },
+        ...stages,
         {
           $project: {
             _id: 1,
@@ -625,6 +1252,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
             timestamp: 1,
             shortformResponse: 1,
             crowdsourcedCategory: 1,
+            machineCategory: 1,
             score: { $meta: "vectorSearchScore" },
           },
         },
@@ -640,6 +1268,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
         timestamp: result.timestamp,
         shortformResponse: result.shortformResponse || {},
         crowdsourcedCategory: result.crowdsourcedCategory || null,
+        machineCategory: result.machineCategory || null,
         score: result.score,
       }));
 
@@ -659,7 +1288,8 @@ export class DatabaseDurableObject extends DurableObject<Env> {
   async findSimilarImageEmbedding(
     embedding: number[],
     limit: number = 5,
-    hasCaption?: boolean | null
+    hasCaption?: boolean | null,
+    filters?: SimilarCheckFilters
   ): Promise<{
     success: boolean;
     data?: Array<
@@ -671,6 +1301,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
         | "timestamp"
         | "shortformResponse"
         | "crowdsourcedCategory"
+        | "machineCategory"
       > & {
         id: string;
         distance: number;
@@ -694,10 +1325,12 @@ export class DatabaseDurableObject extends DurableObject<Env> {
         isExpired: false,
       };
 
-      if (this.env.ENVIRONMENT === "production") {
+      if (this.env.ENVIRONMENT === "production" || filters?.humanAssessedOnly) {
         filter.isHumanAssessed = true;
       }
 
+      const { searchLimit, stages } = getPostFilterStages(limit, filters);
+
       // Filter by caption presence if specified
       // hasCaption = true: only return records with a caption
       // hasCaption = false or null: only return records without a caption
@@ -718,11 +1351,12 @@ export class DatabaseDurableObject extends DurableObject<Env> {
             index: "pdq-embedding-index",
             queryVector: embedding,
             path: "embeddings.pdq",
-            numCandidates: limit * 10,
-            limit: limit,
+            numCandidates: searchLimit * 10,
+            limit: searchLimit,
             filter: filter,
           },
         },
+        ...stages,
         {
           $project: {
             _id: 1,
@@ -732,6 +1366,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
             timestamp: 1,
             shortformResponse: 1,
             crowdsourcedCategory: 1,
+            machineCategory: 1,
             distance: { $meta: "vectorSearchScore" },
           },
         },
@@ -752,7 +1387,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
       this.logger.info(
         {
           requestedLimit: limit,
-          numCandidates: limit * 10,
+          numCandidates: searchLimit * 10,
           resultsReturned: results.length,
           totalWithPDQ,
           totalNotExpired,
@@ -770,6 +1405,7 @@ export class DatabaseDurableObject extends DurableObject<Env> {
         timestamp: result.timestamp,
         shortformResponse: result.shortformResponse || {},
         crowdsourcedCategory: result.crowdsourcedCategory || null,
+        machineCategory: result.machineCategory || null,
         distance: result.distance,
       }));
 
@@ -817,6 +1453,11 @@ export default class extends WorkerEntrypoint<Env> {
   }
 
   // Delegate all database methods to the Durable Object
+  async ping(): Promise<{ success: boolean; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.ping();
+  }
+
   async insertCheck(
     check: Omit<Check, "_id">,
     customId?: string
@@ -832,6 +1473,13 @@ export default class extends WorkerEntrypoint<Env> {
     return durableObject.findCheckById(id);
   }
 
+  async findPublishedCheckBySlug(
+    slug: string
+  ): Promise<{ success: boolean; data?: Check; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.findPublishedCheckBySlug(slug);
+  }
+
   async findCheckByTextHash(
     textHash: string
   ): Promise<{ success: boolean; data?: Check; error?: string }> {
@@ -849,15 +1497,26 @@ export default class extends WorkerEntrypoint<Env> {
 
   async updateCheck(
     id: string,
-    data: Partial<Omit<Check, "_id">>
+    data: Partial<Omit<Check, "_id">>,
+    actor: string = "system"
   ): Promise<{ success: boolean; error?: string }> {
     const durableObject = this.getDurableObject();
-    return durableObject.updateCheck(id, data);
+    return durableObject.updateCheck(id, data, actor);
+  }
+
+  async updateErroredCheck(
+    id: string,
+    data: Partial<Omit<Check, "_id">>,
+    actor: string = "system"
+  ): Promise<{ success: boolean; updated?: boolean; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.updateErroredCheck(id, data, actor);
   }
 
   async updateCheckWithChanges(
     id: string,
-    data: Partial<Omit<Check, "_id">> & Record<string, any>
+    data: Partial<Omit<Check, "_id">> & Record<string, any>,
+    actor: string = "system"
   ): Promise<{
     success: boolean;
     error?: string;
@@ -870,7 +1529,14 @@ export default class extends WorkerEntrypoint<Env> {
     };
   }> {
     const durableObject = this.getDurableObject();
-    return durableObject.updateCheckWithChanges(id, data);
+    return durableObject.updateCheckWithChanges(id, data, actor);
+  }
+
+  async findCheckAuditsByCheckId(
+    checkId: string
+  ): Promise<{ success: boolean; data?: CheckAuditEntry[]; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.findCheckAuditsByCheckId(checkId);
   }
 
   async deleteCheck(id: string): Promise<{ success: boolean; error?: string }> {
@@ -878,6 +1544,23 @@ export default class extends WorkerEntrypoint<Env> {
     return durableObject.deleteCheck(id);
   }
 
+  async findSharedScreenshotKeys(
+    checkId: string,
+    screenshotKeys: string[]
+  ): Promise<{ success: boolean; data?: string[]; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.findSharedScreenshotKeys(checkId, screenshotKeys);
+  }
+
+  async eraseCheck(
+    id: string,
+    actor: string,
+    reason: string | null = null
+  ): Promise<{ success: boolean; data?: CheckTombstone; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.eraseCheck(id, actor, reason);
+  }
+
   async insertSubmission(submission: Omit<Submission, "_id">): Promise<{
     success: boolean;
     id?: string;
@@ -895,6 +1578,14 @@ export default class extends WorkerEntrypoint<Env> {
     return durableObject.findSubmissionById(id);
   }
 
+  async findSubmissionByRequestId(
+    consumerName: string,
+    requestId: string
+  ): Promise<{ success: boolean; data?: Submission; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.findSubmissionByRequestId(consumerName, requestId);
+  }
+
   async updateSubmission(
     id: string,
     data: Partial<Omit<Submission, "_id">>
@@ -917,15 +1608,54 @@ export default class extends WorkerEntrypoint<Env> {
     return durableObject.findSubmissionsByCheckId(checkId);
   }
 
+  async findSubmissionsByConsumer(
+    consumerName: string,
+    options: SubmissionListOptions
+  ): Promise<{
+    success: boolean;
+    data?: SubmissionWithCheck[];
+    error?: string;
+  }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.findSubmissionsByConsumer(consumerName, options);
+  }
+
+  async upsertSubmissionFeedback(
+    feedback: SubmissionFeedback
+  ): Promise<{ success: boolean; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.upsertSubmissionFeedback(feedback);
+  }
+
+  async getFeedbackSummary(
+    checkId: string
+  ): Promise<{ success: boolean; data?: FeedbackSummary; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.getFeedbackSummary(checkId);
+  }
+
+  async updateSubmissionsByCheckId(
+    checkId: string,
+    data: Partial<Omit<Submission, "_id" | "checkId">>
+  ): Promise<{ success: boolean; modifiedCount?: number; error?: string }> {
+    const durableObject = this.getDurableObject();
+    return durableObject.updateSubmissionsByCheckId(checkId, data);
+  }
+
   async findSimilarTextEmbedding(
     embedding: number[],
-    limit: number = 5
+    limit: number = 5,
+    filters?: SimilarCheckFilters
   ): Promise<{
     success: boolean;
     data?: Array<
       Pick<
         Check,
-        "text" | "timestamp" | "shortformResponse" | "crowdsourcedCategory"
+        | "text"
+        | "timestamp"
+        | "shortformResponse"
+        | "crowdsourcedCategory"
+        | "machineCategory"
       > & {
         id: string;
         score: number;
@@ -934,12 +1664,13 @@ export default class extends WorkerEntrypoint<Env> {
     error?: string;
   }> {
     const durableObject = this.getDurableObject();
-    return durableObject.findSimilarTextEmbedding(embedding, limit);
+    return durableObject.findSimilarTextEmbedding(embedding, limit, filters);
   }
 
   async findSimilarCaptionEmbedding(
     embedding: number[],
-    limit: number = 5
+    limit: number = 5,
+    filters?: SimilarCheckFilters
   ): Promise<{
     success: boolean;
     data?: Array<
@@ -951,6 +1682,7 @@ export default class extends WorkerEntrypoint<Env> {
         | "timestamp"
         | "shortformResponse"
         | "crowdsourcedCategory"
+        | "machineCategory"
       > & {
         id: string;
         score: number;
@@ -959,13 +1691,14 @@ export default class extends WorkerEntrypoint<Env> {
     error?: string;
   }> {
     const durableObject = this.getDurableObject();
-    return durableObject.findSimilarCaptionEmbedding(embedding, limit);
+    return durableObject.findSimilarCaptionEmbedding(embedding, limit, filters);
   }
 
   async findSimilarImageEmbedding(
     embedding: number[],
     limit: number = 5,
-    hasCaption?: boolean | null
+    hasCaption?: boolean | null,
+    filters?: SimilarCheckFilters
   ): Promise<{
     success: boolean;
     data?: Array<
@@ -977,6 +1710,7 @@ export default class extends WorkerEntrypoint<Env> {
         | "timestamp"
         | "shortformResponse"
         | "crowdsourcedCategory"
+        | "machineCategory"
       > & {
         id: string;
         distance: number;
@@ -985,6 +1719,11 @@ export default class extends WorkerEntrypoint<Env> {
     error?: string;
   }> {
     const durableObject = this.getDurableObject();
-    return durableObject.findSimilarImageEmbedding(embedding, limit, hasCaption);
+    return durableObject.findSimilarImageEmbedding(
+      embedding,
+      limit,
+      hasCaption,
+      filters
+    );
   }
 }
@@ -1,6 +1,10 @@
 import { WorkerEntrypoint } from "cloudflare:workers";
 import { createLogger } from "@workspace/shared-utils";
-import { EmbedRequest, EmbedResult } from "@workspace/shared-types";
+import {
+  EmbedRequest,
+  EmbedResult,
+  HealthCheckResult,
+} from "@workspace/shared-types";
 /**
  * Embedder Service Worker
  *
@@ -23,6 +27,11 @@ export default class extends WorkerEntrypoint<Env> {
     return new Response(JSON.stringify({ embedding }));
   }
 
+  // Answers health checks without generating an embedding
+  async healthCheck(): Promise<HealthCheckResult> {
+    return { success: true };
+  }
+
   async embed(request: EmbedRequest): Promise<EmbedResult> {
     if (request.id !== undefined) {
       this.logContext["x-request-id"] = request.id;
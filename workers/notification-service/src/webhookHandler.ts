@@ -30,10 +30,14 @@ export function setupTelegramBot(env: Env) {
 
       switch (action) {
         case "publish":
-          await env.DATABASE_SERVICE.updateCheck(messageId, {
-            isApprovedForPublishing: true,
-            approvedBy: ctx.from?.id,
-          });
+          await env.DATABASE_SERVICE.updateCheck(
+            messageId,
+            {
+              isApprovedForPublishing: true,
+              approvedBy: ctx.from?.id,
+            },
+            `telegram:${ctx.from?.id}`
+          );
 
           logger.info({ messageId }, "Approval request received for message");
 
@@ -45,10 +49,14 @@ export function setupTelegramBot(env: Env) {
           break;
 
         case "unpublish":
-          await env.DATABASE_SERVICE.updateCheck(messageId, {
-            isApprovedForPublishing: false,
-            approvedBy: null,
-          });
+          await env.DATABASE_SERVICE.updateCheck(
+            messageId,
+            {
+              isApprovedForPublishing: false,
+              approvedBy: null,
+            },
+            `telegram:${ctx.from?.id}`
+          );
 
           await ctx.answerCallbackQuery({ text: "Unpublished" });
           button = {
@@ -95,6 +95,7 @@ export default class extends WorkerEntrypoint<Env> {
           url: url,
           imageUrl: imageUrl,
           base64: base64,
+          r2Key: urlHash,
         },
         id,
       };
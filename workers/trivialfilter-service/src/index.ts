@@ -8,6 +8,7 @@
  */
 
 import {
+  HealthCheckResult,
   TrivialFilterRequest,
   TrivialFilterResult,
 } from "@workspace/shared-types";
@@ -69,6 +70,11 @@ export default class extends WorkerEntrypoint<Env> {
     }
   }
 
+  // Answers health checks without calling the LLM
+  async healthCheck(): Promise<HealthCheckResult> {
+    return { success: true };
+  }
+
   async checkNeedsChecking(
     request: TrivialFilterRequest
   ): Promise<TrivialFilterResult> {